@@ -41,6 +41,7 @@ const INITIAL_ITEMS: BoardItemData[] = [
     type: "color",
     color: "#6C63FF",
     label: "Indigo",
+    showValue: true,
     x: 40,
     y: 320,
     width: 100,
@@ -1,6 +1,7 @@
 import { Canvas, Group, SkTypefaceFontProvider } from "@shopify/react-native-skia";
 import React, {
   useCallback,
+  useEffect,
   useMemo,
   useRef,
   useState,
@@ -12,11 +13,12 @@ import {
   View,
   StyleSheet,
   useWindowDimensions,
+  Keyboard,
 } from "react-native";
 import { GestureDetector } from "react-native-gesture-handler";
-import { useDerivedValue, useSharedValue } from "react-native-reanimated";
+import { useDerivedValue } from "react-native-reanimated";
 
-import { SkiaGrid, SkiaGridProps } from "./SkiaGrid";
+import { GridOptions, SkiaGrid } from "./SkiaGrid";
 import { DefaultItemRenderer } from "./DefaultItemRenderer";
 import { SelectionOverlay, SelectionOverlayAction } from "./SelectionOverlay";
 import {
@@ -25,21 +27,49 @@ import {
 } from "./MultiSelectToolbar";
 import { ZoomControls, ZoomControlsProps } from "./ZoomControls";
 import { Minimap, MinimapProps } from "./Minimap";
+import { SelectionHandles } from "./SelectionHandles";
+import { SelectionMarquee } from "./SelectionMarquee";
+import { SmartGuides } from "./SmartGuides";
+import { TextEditOverlay } from "./TextEditOverlay";
 
 import { useItemRegistry } from "./useItemRegistry";
 import { useCanvasGestureController } from "./useCanvasGestureController";
 import { useMultiSelect } from "./useMultiSelect";
 import { useSkiaImageLoader } from "./useSkiaImageLoader";
 import { useBatchedTransformEnd } from "./useBatchedTransformEnd";
+import { useCamera } from "./useCamera";
+import { useBoardHistory } from "./useBoardHistory";
+import { useArrangeCommands } from "./useArrangeCommands";
+import { useAutoLayout } from "./useAutoLayout";
+import { buildDefaultSelectionActions } from "./defaultSelectionActions";
+import { useViewportCulling } from "./useViewportCulling";
+import { clampPan, getItemFootprint, getUnionBounds } from "./utils";
+import { getColorValue } from "./colors";
 
 import {
   BoardItemData,
   BoardActions,
+  BoardFonts,
   ImageLoader,
   ItemRenderState,
   Point,
   RegistryItem,
   OnTransformEnd,
+  ResizeConfig,
+  RotateConfig,
+  SnapConfig,
+  SmartGuidesConfig,
+  CullingConfig,
+  EmptyDragMode,
+  Bounds,
+  Camera,
+  CameraAnimationOptions,
+  CameraChangeEvent,
+  BoardCommands,
+  HistoryState,
+  ArrangeCommands,
+  LayoutKind,
+  LayoutOptions,
 } from "./types";
 
 // ─── Image loader sub-component ──────────────────────────────────────────────
@@ -48,12 +78,24 @@ const ImageLoaderComponent = ({
   itemId,
   loadImage,
   onLoaded,
+  releaseOnUnmount = false,
 }: {
   itemId: string;
   loadImage: ImageLoader;
   onLoaded: (id: string, image: any) => void;
+  releaseOnUnmount?: boolean;
 }) => {
   useSkiaImageLoader(itemId, loadImage, onLoaded);
+
+  // Culled items drop their decoded image when the loader unmounts
+  const releaseRef = useRef(releaseOnUnmount);
+  releaseRef.current = releaseOnUnmount;
+  useEffect(
+    () => () => {
+      if (releaseRef.current) onLoaded(itemId, null);
+    },
+    [itemId],
+  );
   return null;
 };
 
@@ -81,9 +123,26 @@ export interface BoardCanvasProps {
 
   /**
    * Build the array of selection overlay actions for a given item.
-   * If not provided, no overlay actions are shown.
+   * If not provided, the default actions are shown: delete, duplicate,
+   * bring forward / send backward, and lock, for whichever `actions`
+   * callbacks exist.
+   *
+   * `defaultActions` is that built-in list — spread it to keep the
+   * defaults next to your own buttons. Call the provided `commands`
+   * (instead of your API directly) for deletes, duplicates, and z-order
+   * changes to make them undoable.
    */
-  selectionActions?: (itemId: string) => SelectionOverlayAction[];
+  selectionActions?: (
+    itemId: string,
+    commands: BoardCommands,
+    defaultActions: SelectionOverlayAction[],
+  ) => SelectionOverlayAction[];
+
+  /** Called whenever undo / redo availability changes. */
+  onHistoryChange?: (state: HistoryState) => void;
+
+  /** Maximum number of undo steps kept. Default 100. */
+  historyLimit?: number;
 
   /**
    * Custom item renderer. Receives the registry item and render state.
@@ -102,8 +161,9 @@ export interface BoardCanvasProps {
 
   /**
    * Grid configuration. Pass `false` to hide the grid entirely.
+   * The grid is infinite and follows the camera.
    */
-  grid?: SkiaGridProps | false;
+  grid?: GridOptions | false;
 
   /**
    * Color customization for selection borders.
@@ -112,6 +172,7 @@ export interface BoardCanvasProps {
     selectionColor?: string;
     multiSelectionColor?: string;
     groupColor?: string;
+    marqueeColor?: string;
   };
 
   /**
@@ -139,12 +200,138 @@ export interface BoardCanvasProps {
         | "canvasHeight"
       >;
 
+  /**
+   * Resize handles on the selected item.
+   * Enabled by default; pass `false` to disable, or an object to configure
+   * aspect-ratio lock, minimum size, and handle appearance.
+   */
+  resize?: boolean | ResizeConfig;
+
+  /**
+   * Rotate handle above the selected item.
+   * Enabled by default; pass `false` to disable, or an object to enable
+   * angle snapping (e.g. `{ snap: true, snapAngle: 15 }`).
+   */
+  rotate?: boolean | RotateConfig;
+
+  /**
+   * Snap item positions (and sizes while resizing) to the grid while
+   * dragging. `true` uses the grid's `gridSize`; pass an object for a
+   * custom step. Groups and multiselections keep their relative layout —
+   * only the dragged item's origin snaps. Disabled by default.
+   */
+  snap?: boolean | SnapConfig;
+
+  /**
+   * Figma-style smart guides: while dragging, edges and centers snap to
+   * nearby items and to equal spacing between neighbours, with guide lines
+   * drawn on the canvas. Pass an object to tune the threshold (screen
+   * pixels) or color. Disabled by default.
+   */
+  smartGuides?: boolean | SmartGuidesConfig;
+
+  /**
+   * Controlled selection. One id selects that item (with handles and the
+   * action overlay); two or more show the multiselect toolbar. Pass `[]`
+   * to clear. Omit to let the canvas manage the selection itself.
+   */
+  selectedIds?: string[];
+
+  /**
+   * Called with the selected ids whenever the user changes the selection
+   * (tap, long-press, marquee / lasso, toolbar, delete).
+   */
+  onSelectionChange?: (ids: string[]) => void;
+
+  /**
+   * Camera to start from, e.g. the user's last viewport for this board.
+   * Applied once, when the canvas is first laid out.
+   */
+  initialCamera?: Camera;
+
+  /**
+   * Controlled camera. Changes are applied (animated) whenever the value
+   * changes; echoing back what `onCameraChange` reported is a no-op, so
+   * it is safe to store that in state and pass it straight back in.
+   */
+  camera?: Camera;
+
+  /**
+   * Called (throttled) after the camera moves — pan, pinch, fling,
+   * minimap navigation, zoom controls, or programmatic moves.
+   */
+  onCameraChange?: (event: CameraChangeEvent) => void;
+
+  /** Minimum interval between `onCameraChange` calls in ms. Default 100. */
+  cameraChangeThrottle?: number;
+
+  /** Minimum zoom level for pinch and zoom controls. Default 0.1. */
+  minScale?: number;
+
+  /** Maximum zoom level for pinch and zoom controls. Default 5. */
+  maxScale?: number;
+
+  /**
+   * Let pinch overshoot `minScale` / `maxScale` with resistance and spring
+   * back on release. Default false (hard stop at the limits).
+   */
+  rubberBandZoom?: boolean;
+
+  /**
+   * Keep the canvas moving after a fling, slowing down with velocity-based
+   * decay. Enabled by default; pass `false` to stop dead on release, or
+   * `{ deceleration }` (0–1, default 0.997) to tune the glide.
+   */
+  panInertia?: boolean | { deceleration?: number };
+
+  /**
+   * Optional world-space rect the viewport center must stay inside.
+   * Panning, pinch zoom, and minimap navigation are clamped to it, and
+   * flings stop at its edges.
+   */
+  panBounds?: Bounds;
+
+  /**
+   * Skip rendering items outside the viewport (plus a margin). Enabled by
+   * default; pass `false` to render everything, or an object to tune the
+   * margin and release off-screen images.
+   */
+  culling?: boolean | CullingConfig;
+
+  /**
+   * Show align / distribute / match-size buttons in the default
+   * multiselect toolbar. The same commands are always available on the
+   * ref. Default false.
+   */
+  arrangeTools?: boolean;
+
+  /**
+   * What a one-finger drag on empty canvas does: `"pan"` (default),
+   * `"marquee"` (rectangle selection), or `"lasso"` (freeform selection).
+   * In the selection modes, a two-finger drag pans the canvas.
+   */
+  emptyDragMode?: EmptyDragMode;
+
+  /**
+   * Whether locked items (`locked: true`) can still be selected. They can
+   * never be dragged, resized, or rotated — a drag on one pans the canvas.
+   * Default true.
+   */
+  selectLockedItems?: boolean;
+
   /**
    * Font provider for Skia Paragraph text rendering.
    * Required on web; on native, system fonts are used automatically if omitted.
    */
   fontMgr?: SkTypefaceFontProvider | null;
 
+  /**
+   * Custom fonts, default family, and emoji / CJK fallback chain for the
+   * built-in renderers — usually the result of `useBoardFonts`. Its
+   * `fontMgr` takes precedence over the `fontMgr` prop.
+   */
+  fonts?: BoardFonts;
+
   /**
    * Optional children to render inside the canvas container (e.g. FABs, snackbars).
    */
@@ -153,20 +340,87 @@ export interface BoardCanvasProps {
 
 /**
  * Imperative handle exposed via ref on BoardCanvas.
+ *
+ * Camera moves animate by default and accept the same `{ animated, duration }`
+ * options as `ZoomControls`.
  */
 export interface BoardCanvasRef {
   /** Returns the world-space point at the center of the current viewport. */
   getViewportCenter: () => Point;
+  /** Current camera: world point at the viewport center, plus zoom. */
+  getCamera: () => Camera;
+  /** Move the camera. Omitted fields keep their current value. */
+  setCamera: (
+    camera: Partial<Camera>,
+    options?: CameraAnimationOptions,
+  ) => void;
+  /** Center the viewport on a world point, keeping the current zoom. */
+  panTo: (point: Point, options?: CameraAnimationOptions) => void;
+  /**
+   * Zoom so the given items (default: all items) fill the viewport,
+   * leaving `padding` screen pixels on each side (default 40).
+   */
+  zoomToFit: (
+    ids?: string[],
+    padding?: number,
+    options?: CameraAnimationOptions,
+  ) => void;
+  /** Zoom so a single item fills the viewport. */
+  zoomToItem: (
+    id: string,
+    padding?: number,
+    options?: CameraAnimationOptions,
+  ) => void;
+  /** Convert a point on the canvas view to world coordinates. */
+  screenToWorld: (point: Point) => Point;
+  /** Convert a world point to a point on the canvas view. */
+  worldToScreen: (point: Point) => Point;
+  /**
+   * Replace the selection (e.g. after creating an item). Reported through
+   * `onSelectionChange`.
+   */
+  select: (ids: string[]) => void;
+  /** Deselect everything. */
+  clearSelection: () => void;
+  /** Currently selected ids. */
+  getSelection: () => string[];
+  /** Revert the last edit through the consumer callbacks. */
+  undo: () => void;
+  /** Re-apply the last undone edit. */
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  /** Drop all undo / redo steps (e.g. after loading a different board). */
+  clearHistory: () => void;
+  /** Undoable edits; see `BoardCommands`. */
+  deleteItems: BoardCommands["deleteItems"];
+  duplicateItems: BoardCommands["duplicateItems"];
+  changeZIndex: BoardCommands["changeZIndex"];
+  groupItems: BoardCommands["groupItems"];
+  ungroupItems: BoardCommands["ungroupItems"];
+  /** Line items up (default: the multiselection); one persisted batch. */
+  alignItems: ArrangeCommands["alignItems"];
+  /** Space three or more items evenly (default: the multiselection). */
+  distributeItems: ArrangeCommands["distributeItems"];
+  /** Give items the largest selected width / height. */
+  matchSize: ArrangeCommands["matchSize"];
+  /**
+   * Arrange items (default: all) into a grid, masonry columns, or tidy up
+   * overlaps. Animates into place, then persists one batch.
+   */
+  autoLayout: (kind: LayoutKind, options?: LayoutOptions) => void;
 }
 
 /**
  * A generic, self-contained board canvas built with Skia.
  *
  * Features:
- * - Pan / zoom canvas
+ * - Pan / pinch-zoom canvas (zooms around the fingers, clamped to limits)
  * - Drag items (individually, in groups, or multiselect)
- * - Tap to select, long-press to multiselect
+ * - Resize and rotate the selected item via handles
+ * - Tap to select, long-press to multiselect, marquee / lasso selection
  * - Grouping / ungrouping via callbacks
+ * - Undo / redo of transforms and structural edits
  * - Fully customizable actions and appearance
  */
 export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
@@ -177,13 +431,35 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
       onTransformEnd,
       actions,
       selectionActions,
+      onHistoryChange,
+      historyLimit,
       renderItem,
       renderMultiSelectToolbar,
       grid,
       colors,
       zoomControls,
       minimap,
+      resize = true,
+      rotate = true,
+      snap = false,
+      smartGuides = false,
+      emptyDragMode = "pan",
+      selectLockedItems = true,
+      selectedIds: controlledSelectedIds,
+      onSelectionChange,
+      initialCamera,
+      camera: controlledCamera,
+      onCameraChange,
+      cameraChangeThrottle,
+      minScale = 0.1,
+      maxScale = 5,
+      rubberBandZoom = false,
+      panInertia = true,
+      panBounds,
+      culling = true,
+      arrangeTools = false,
       fontMgr,
+      fonts,
       children,
     },
     ref,
@@ -194,14 +470,44 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
       getItem,
       getSortedItems,
       findItemAtPoint,
+      findItemsInRect,
+      findItemsInPolygon,
+      findItemsNear,
       getGroupItems,
+      refreshItems,
       setImage,
     } = useItemRegistry(items);
 
+    // ─── History ─────────────────────────────────────────────────────────
+
+    // Undo / redo move items through their shared values; re-index them
+    // before the transforms reach the consumer
+    const handleReplayTransforms = useCallback<OnTransformEnd>(
+      (events) => {
+        refreshItems(events.map((e) => e.id));
+        onTransformEnd?.(events);
+      },
+      [refreshItems, onTransformEnd],
+    );
+
+    const history = useBoardHistory({
+      items,
+      getItem,
+      getGroupItems,
+      onTransformEnd: handleReplayTransforms,
+      actions,
+      limit: historyLimit,
+      onHistoryChange,
+    });
+    const { commands } = history;
+
     // ─── Selection ───────────────────────────────────────────────────────
 
-    const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
-    const multiSelect = useMultiSelect();
+    const selection = useMultiSelect({
+      selectedIds: controlledSelectedIds,
+      onSelectionChange,
+    });
+    const selectedItemId = selection.selectedId;
 
     // ─── Canvas layout (needed by minimap) ──────────────────────────────
 
@@ -221,9 +527,25 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
 
     // ─── Camera ──────────────────────────────────────────────────────────
 
-    const scale = useSharedValue(1);
-    const translateX = useSharedValue(0);
-    const translateY = useSharedValue(0);
+    const camera = useCamera({
+      canvasWidth: canvasSize.width,
+      canvasHeight: canvasSize.height,
+      measured: canvasLayout !== null,
+      minScale,
+      maxScale,
+      defaultAnimation:
+        typeof zoomControls === "object"
+          ? {
+              animated: zoomControls.animated,
+              duration: zoomControls.animationDuration,
+            }
+          : undefined,
+      initialCamera,
+      camera: controlledCamera,
+      onCameraChange,
+      cameraChangeThrottle,
+    });
+    const { scale, translateX, translateY } = camera;
 
     const cameraTransform = useDerivedValue(() => [
       { translateX: translateX.value },
@@ -231,34 +553,192 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
       { scale: scale.value },
     ]);
 
+    // ─── Viewport culling ────────────────────────────────────────────────
+
+    const cullingConfig = typeof culling === "object" ? culling : {};
+    const visibleRect = useViewportCulling({
+      scale,
+      translateX,
+      translateY,
+      canvasWidth: canvasSize.width,
+      canvasHeight: canvasSize.height,
+      margin: cullingConfig.margin,
+      enabled: !!culling,
+    });
+    const releaseImages = !!culling && !!cullingConfig.releaseImages;
+
+    // ─── Transform persistence ──────────────────────────────────────────
+
+    // Every persisted batch is also one undo step
+    const handlePersistTransforms = useCallback<OnTransformEnd>(
+      (events) => {
+        history.recordTransforms(events);
+        onTransformEnd?.(events);
+      },
+      [history.recordTransforms, onTransformEnd],
+    );
+
+    const batchTransformEnd = useBatchedTransformEnd({
+      getItem,
+      getGroupItems,
+      onTransformEnd: handlePersistTransforms,
+    });
+
+    // Re-index right away so hit tests see the new position before the
+    // batch is flushed
+    const handleItemTransformEnd = useCallback(
+      (id: string) => {
+        refreshItems([id]);
+        batchTransformEnd(id);
+      },
+      [refreshItems, batchTransformEnd],
+    );
+
+    // ─── Arrange (align / distribute / match size / auto-layout) ───────
+
+    const arrange = useArrangeCommands({
+      getItem,
+      getSelectedIds: () => Array.from(selection.selectedIds),
+      onItemTransformEnd: handleItemTransformEnd,
+    });
+
+    const autoLayout = useAutoLayout({
+      getItem,
+      getSortedItems,
+      onItemTransformEnd: handleItemTransformEnd,
+    });
+
     // ─── Imperative handle ─────────────────────────────────────────────
 
     useImperativeHandle(
       ref,
       () => ({
         getViewportCenter: () => {
-          const s = scale.value || 1;
-          const cx = (-translateX.value + canvasSize.width / 2) / s;
-          const cy = (-translateY.value + canvasSize.height / 2) / s;
-          return { x: cx, y: cy };
+          const { x, y } = camera.getCamera();
+          return { x, y };
+        },
+        getCamera: camera.getCamera,
+        setCamera: camera.setCamera,
+        panTo: camera.panTo,
+        zoomToFit: (ids, padding, options) => {
+          const targets = ids
+            ? ids
+                .map(getItem)
+                .filter((i): i is RegistryItem => i !== undefined)
+            : getSortedItems();
+          const bounds = getUnionBounds(targets.map(getItemFootprint));
+          if (bounds) camera.zoomToBounds(bounds, padding, options);
         },
+        zoomToItem: (id, padding, options) => {
+          const item = getItem(id);
+          if (item) {
+            camera.zoomToBounds(getItemFootprint(item), padding, options);
+          }
+        },
+        screenToWorld: camera.screenToWorld,
+        worldToScreen: camera.worldToScreen,
+        select: selection.select,
+        clearSelection: selection.clear,
+        getSelection: () => Array.from(selection.selectedIds),
+        undo: history.undo,
+        redo: history.redo,
+        canUndo: history.canUndo,
+        canRedo: history.canRedo,
+        clearHistory: history.clear,
+        ...commands,
+        ...arrange,
+        autoLayout,
       }),
-      [scale, translateX, translateY, canvasSize],
+      [
+        camera,
+        getItem,
+        getSortedItems,
+        selection,
+        history,
+        commands,
+        arrange,
+        autoLayout,
+      ],
     );
 
-    // ─── Transform persistence ──────────────────────────────────────────
+    // ─── Selection handler ──────────────────────────────────────────────
+
+    const { select } = selection;
+    const handleItemSelected = useCallback(
+      (id: string | null) => select(id ? [id] : []),
+      [select],
+    );
 
-    const handleItemTransformEnd = useBatchedTransformEnd({
+    // ─── Auto height ────────────────────────────────────────────────────
+
+    // Text / URL cards with overflow "autoHeight" fit themselves to their
+    // content, and the inline editor grows notes to fit their text. The new
+    // height is persisted like a resize, but it is not an undo step of its
+    // own — undoing it would leave the text overflowing
+    const handlePersistContentFits = useCallback<OnTransformEnd>(
+      (events) => {
+        history.trackTransforms(events);
+        onTransformEnd?.(events);
+      },
+      [history.trackTransforms, onTransformEnd],
+    );
+
+    const batchContentFit = useBatchedTransformEnd({
       getItem,
       getGroupItems,
-      onTransformEnd,
+      onTransformEnd: handlePersistContentFits,
     });
 
-    // ─── Selection handler ──────────────────────────────────────────────
+    const handleContentHeightChange = useCallback(
+      (id: string, height: number) => {
+        const item = getItem(id);
+        if (!item || item.height.value === height) return;
+        item.height.value = height;
+        refreshItems([id]);
+        batchContentFit(id);
+      },
+      [getItem, refreshItems, batchContentFit],
+    );
 
-    const handleItemSelected = useCallback((id: string | null) => {
-      setSelectedItemId(id);
-    }, []);
+    // ─── Inline text editing ────────────────────────────────────────────
+
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const onTextChange = actions?.onTextChange;
+
+    const handleItemDoubleTap = useCallback(
+      (id: string) => {
+        const data = getItem(id)?.data;
+        // Span notes render their spans, not `text`, so there is nothing
+        // the plain editor could change
+        if (data?.type !== "text" || data.spans) return;
+        select([id]);
+        setEditingId(id);
+      },
+      [getItem, select],
+    );
+
+    const handleTextCommit = useCallback(
+      (text: string, heightChanged: boolean) => {
+        const id = editingId;
+        if (!id) return;
+        setEditingId(null);
+        const item = getItem(id);
+        if (item?.data.type === "text" && item.data.text !== text) {
+          onTextChange?.(id, text);
+        }
+        // The editor grew the item to fit the text — persist the fit
+        if (heightChanged) {
+          refreshItems([id]);
+          batchContentFit(id);
+        }
+      },
+      [editingId, getItem, onTextChange, refreshItems, batchContentFit],
+    );
+
+    // Selecting something else ends the edit (blurring commits it)
+    useEffect(() => {
+      if (editingId && selectedItemId !== editingId) Keyboard.dismiss();
+    }, [editingId, selectedItemId]);
 
     // ─── Minimap pan handler ─────────────────────────────────────────
 
@@ -283,6 +763,25 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
       return { ox, oy, w, h, pad };
     }, [minimap, canvasSize]);
 
+    /** Center the camera on a world point, within `panBounds`. */
+    const centerCameraOn = useCallback(
+      (worldX: number, worldY: number) => {
+        const { x, y } = clampPan(
+          {
+            x: canvasSize.width / 2 - worldX * scale.value,
+            y: canvasSize.height / 2 - worldY * scale.value,
+          },
+          scale.value,
+          panBounds,
+          canvasSize.width,
+          canvasSize.height,
+        );
+        translateX.value = x;
+        translateY.value = y;
+      },
+      [translateX, translateY, scale, canvasSize, panBounds],
+    );
+
     const handleMinimapPan = useCallback(
       (screenX: number, screenY: number): boolean => {
         if (!minimapConfig) return false;
@@ -306,12 +805,11 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
 
         const allItems = getSortedItems();
         for (const item of allItems) {
-          const ix = item.x.value;
-          const iy = item.y.value;
-          if (ix < minX) minX = ix;
-          if (iy < minY) minY = iy;
-          if (ix + item.width.value > maxX) maxX = ix + item.width.value;
-          if (iy + item.height.value > maxY) maxY = iy + item.height.value;
+          const b = getItemFootprint(item);
+          if (b.x < minX) minX = b.x;
+          if (b.y < minY) minY = b.y;
+          if (b.x + b.width > maxX) maxX = b.x + b.width;
+          if (b.y + b.height > maxY) maxY = b.y + b.height;
         }
 
         // Include viewport at the time of the FIRST touch only
@@ -353,9 +851,7 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
         const worldX = (screenX - ox - pad) / mScale + minX;
         const worldY = (screenY - oy - pad) / mScale + minY;
 
-        // Center camera on that world point
-        translateX.value = -(worldX * scale.value - canvasSize.width / 2);
-        translateY.value = -(worldY * scale.value - canvasSize.height / 2);
+        centerCameraOn(worldX, worldY);
 
         return true;
       },
@@ -366,6 +862,7 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
         translateY,
         scale,
         canvasSize,
+        centerCameraOn,
       ],
     );
 
@@ -390,42 +887,89 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
         const worldX = (screenX - ox - pad) / mScale + minX;
         const worldY = (screenY - oy - pad) / mScale + minY;
 
-        // Center camera on that world point
-        translateX.value = -(worldX * scale.value - canvasSize.width / 2);
-        translateY.value = -(worldY * scale.value - canvasSize.height / 2);
+        centerCameraOn(worldX, worldY);
 
         return true;
       },
-      [translateX, translateY, scale, canvasSize],
+      [centerCameraOn],
     );
 
+    // ─── Gesture config ────────────────────────────────────────────────
+
+    const resizeConfig = useMemo<ResizeConfig | null>(() => {
+      if (!resize) return null;
+      return typeof resize === "object" ? resize : {};
+    }, [resize]);
+
+    const rotateConfig = useMemo<RotateConfig | null>(() => {
+      if (!rotate) return null;
+      return typeof rotate === "object" ? rotate : {};
+    }, [rotate]);
+
+    const gridSize = typeof grid === "object" ? grid.gridSize : undefined;
+    const snapConfig = useMemo<SnapConfig | null>(() => {
+      if (!snap) return null;
+      const config = typeof snap === "object" ? snap : {};
+      return { ...config, step: config.step ?? gridSize ?? 50 };
+    }, [snap, gridSize]);
+
+    const smartGuidesConfig = useMemo<SmartGuidesConfig | null>(() => {
+      if (!smartGuides) return null;
+      return typeof smartGuides === "object" ? smartGuides : {};
+    }, [smartGuides]);
+
+    const panInertiaConfig = useMemo(() => {
+      if (!panInertia) return null;
+      return typeof panInertia === "object" ? panInertia : {};
+    }, [panInertia]);
+
     // ─── Gesture controller ─────────────────────────────────────────────
 
-    const { gesture } = useCanvasGestureController({
-      scale,
-      translateX,
-      translateY,
-      findItemAtPoint,
-      getGroupItems,
-      getItem,
-      onItemSelected: handleItemSelected,
-      onItemTransformEnd: handleItemTransformEnd,
-      isMultiSelectActive: multiSelect.isActive,
-      multiSelectIds: multiSelect.selectedIds,
-      onMultiSelectActivate: multiSelect.activate,
-      onMultiSelectToggle: multiSelect.toggle,
-      onMultiSelectClear: multiSelect.clear,
-      onMinimapPan: minimap ? handleMinimapPan : undefined,
-      onMinimapPanContinue: minimap ? handleMinimapContinue : undefined,
-    });
+    const { gesture, selectionPoints, guides, draggingIds } =
+      useCanvasGestureController({
+        scale,
+        translateX,
+        translateY,
+        findItemAtPoint,
+        findItemsInRect,
+        findItemsInPolygon,
+        findItemsNear,
+        getGroupItems,
+        getItem,
+        onItemSelected: handleItemSelected,
+        onItemTransformEnd: handleItemTransformEnd,
+        isMultiSelectActive: selection.isActive,
+        multiSelectIds: selection.selectedIds,
+        onMultiSelectActivate: selection.activate,
+        onMultiSelectToggle: selection.toggle,
+        onMultiSelectClear: selection.clear,
+        onMultiSelectMany: selection.selectMany,
+        onItemDoubleTap: onTextChange ? handleItemDoubleTap : undefined,
+        onMinimapPan: minimap ? handleMinimapPan : undefined,
+        onMinimapPanContinue: minimap ? handleMinimapContinue : undefined,
+        selectedItemId,
+        resize: resizeConfig,
+        rotate: rotateConfig,
+        emptyDragMode,
+        selectLocked: selectLockedItems,
+        snap: snapConfig,
+        smartGuides: smartGuidesConfig,
+        minScale,
+        maxScale,
+        rubberBandZoom,
+        panInertia: panInertiaConfig,
+        panBounds,
+        canvasWidth: canvasSize.width,
+        canvasHeight: canvasSize.height,
+      });
 
     // ─── Grouping logic ─────────────────────────────────────────────────
 
     const multiSelectGroupInfo = useMemo(() => {
-      if (multiSelect.count === 0)
+      if (selection.count === 0)
         return { allSameGroup: false, anyGrouped: false };
 
-      const ids = Array.from(multiSelect.selectedIds);
+      const ids = Array.from(selection.selectedIds);
       let firstGroupId: string | null | undefined = undefined;
       let allSame = true;
       let anyGrouped = false;
@@ -446,52 +990,107 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
           allSame && firstGroupId !== null && firstGroupId !== undefined,
         anyGrouped,
       };
-    }, [multiSelect.selectedIds, multiSelect.count, items]);
+    }, [selection.selectedIds, selection.count, items]);
 
     const handleGroup = useCallback(() => {
-      if (multiSelect.count < 2 || !actions?.onGroup) return;
-      actions.onGroup(Array.from(multiSelect.selectedIds));
-      multiSelect.clear();
-    }, [multiSelect, actions]);
+      if (selection.count < 2 || !actions?.onGroup) return;
+      commands.groupItems(Array.from(selection.selectedIds));
+      selection.clear();
+    }, [selection, actions, commands]);
 
     const handleUngroup = useCallback(() => {
       if (!actions?.onUngroup) return;
 
       const groupIds = new Set<string>();
-      for (const id of multiSelect.selectedIds) {
+      for (const id of selection.selectedIds) {
         const item = items.find((i) => i.id === id);
         if (item?.groupId) groupIds.add(item.groupId);
       }
       if (groupIds.size === 0) return;
 
-      actions.onUngroup(Array.from(groupIds));
-      multiSelect.clear();
-    }, [multiSelect, items, actions]);
+      commands.ungroupItems(Array.from(groupIds));
+      selection.clear();
+    }, [selection, items, actions, commands]);
+
+    // ─── Bulk actions (multiselect toolbar) ─────────────────────────────
+
+    const handleBulkDelete = useCallback(() => {
+      commands.deleteItems(Array.from(selection.selectedIds));
+      selection.clear();
+    }, [selection, commands]);
+
+    const handleBulkDuplicate = useCallback(() => {
+      commands.duplicateItems(Array.from(selection.selectedIds));
+    }, [selection, commands]);
+
+    const handleBulkZIndexChange = useCallback(
+      (direction: "up" | "down") => {
+        commands.changeZIndex(Array.from(selection.selectedIds), direction);
+      },
+      [selection, commands],
+    );
 
     // ─── Render ─────────────────────────────────────────────────────────
 
     const sortedItems = getSortedItems();
+    // The selected item stays mounted so its handles and overlay keep
+    // working, and dragged items so members dragged in from off-screen show
+    // (the index only catches up on transform end)
+    const visibleIds = visibleRect
+      ? new Set([
+          ...findItemsNear(visibleRect).map((item) => item.id),
+          ...draggingIds,
+        ])
+      : null;
+    const renderedItems = visibleIds
+      ? sortedItems.filter(
+          (item) => item.id === selectedItemId || visibleIds.has(item.id),
+        )
+      : sortedItems;
+    const renderedIds = releaseImages
+      ? new Set(renderedItems.map((item) => item.id))
+      : null;
     const selectedRegistryItem = selectedItemId
       ? getItem(selectedItemId)
       : null;
+    const editingItem = editingId ? getItem(editingId) : undefined;
+    const defaultActions = selectedItemId
+      ? buildDefaultSelectionActions(selectedItemId, actions, commands, {
+          onDeleted: selection.clear,
+          locked: selectedRegistryItem?.locked,
+          colorValue:
+            selectedRegistryItem?.data.type === "color"
+              ? getColorValue(selectedRegistryItem.data)
+              : undefined,
+        })
+      : [];
     const overlayActions =
       selectedItemId && selectionActions
-        ? selectionActions(selectedItemId)
-        : [];
+        ? selectionActions(selectedItemId, commands, defaultActions)
+        : defaultActions;
 
     return (
       <View style={styles.container}>
         <GestureDetector gesture={gesture}>
           <View style={styles.canvasContainer} onLayout={handleCanvasLayout}>
             <Canvas style={styles.canvas}>
+              {/* Background grid (screen space, follows the camera) */}
+              {grid !== false && (
+                <SkiaGrid
+                  scale={scale}
+                  translateX={translateX}
+                  translateY={translateY}
+                  width={canvasSize.width}
+                  height={canvasSize.height}
+                  {...(typeof grid === "object" ? grid : {})}
+                />
+              )}
+
               <Group transform={cameraTransform}>
-                {grid !== false && (
-                  <SkiaGrid {...(typeof grid === "object" ? grid : {})} />
-                )}
-                {sortedItems.map((item) => {
+                {renderedItems.map((item) => {
                   const state: ItemRenderState = {
                     isSelected: item.id === selectedItemId,
-                    isMultiSelected: multiSelect.isSelected(item.id),
+                    isMultiSelected: selection.isSelected(item.id),
                   };
 
                   if (renderItem) {
@@ -505,11 +1104,58 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
                   return (
                     <DefaultItemRenderer
                       key={item.id}
-                      item={item}                      fontMgr={fontMgr ?? undefined}                      {...state}
+                      item={item}
+                      fontMgr={fonts?.fontMgr ?? fontMgr ?? undefined}
+                      fontFamily={fonts?.defaultFamily}
+                      fallbackFamilies={fonts?.fallbackFamilies}
+                      onContentHeightChange={handleContentHeightChange}
+                      {...state}
                       {...colors}
                     />
                   );
                 })}
+
+                {/* Resize / rotate handles for the selected item */}
+                {(resizeConfig || rotateConfig) &&
+                  selectedRegistryItem &&
+                  !selectedRegistryItem.locked &&
+                  !selection.isActive && (
+                    <SelectionHandles
+                      item={selectedRegistryItem}
+                      scale={scale}
+                      showResizeHandles={!!resizeConfig}
+                      rotateHandleOffset={
+                        rotateConfig
+                          ? (rotateConfig.handleOffset ?? 28)
+                          : undefined
+                      }
+                      handleSize={resizeConfig?.handleSize}
+                      handleColor={resizeConfig?.handleColor}
+                      handleBorderColor={
+                        resizeConfig?.handleBorderColor ??
+                        colors?.selectionColor
+                      }
+                    />
+                  )}
+
+                {/* In-progress marquee / lasso */}
+                {emptyDragMode !== "pan" && (
+                  <SelectionMarquee
+                    points={selectionPoints}
+                    scale={scale}
+                    shape={emptyDragMode}
+                    color={colors?.marqueeColor ?? colors?.selectionColor}
+                  />
+                )}
+
+                {/* Smart guides while dragging */}
+                {smartGuidesConfig && (
+                  <SmartGuides
+                    guides={guides}
+                    scale={scale}
+                    color={smartGuidesConfig.color}
+                  />
+                )}
               </Group>
 
               {/* Minimap */}
@@ -531,19 +1177,39 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
         {/* Load images for image-type items only */}
         {loadImage &&
           items
-            .filter((item) => item.type === "image")
+            .filter(
+              (item) =>
+                item.type === "image" &&
+                (!renderedIds || renderedIds.has(item.id)),
+            )
             .map((item) => (
               <ImageLoaderComponent
                 key={item.id}
                 itemId={item.id}
                 loadImage={loadImage}
                 onLoaded={setImage}
+                releaseOnUnmount={releaseImages}
               />
             ))}
 
+        {/* Inline text editor */}
+        {editingItem && (
+          <TextEditOverlay
+            key={editingItem.id}
+            item={editingItem}
+            cameraX={translateX.value}
+            cameraY={translateY.value}
+            cameraScale={scale.value}
+            borderColor={colors?.selectionColor}
+            fontFamily={fonts?.defaultFamily}
+            onCommit={handleTextCommit}
+          />
+        )}
+
         {/* Selection overlay */}
         {selectedRegistryItem &&
-          !multiSelect.isActive &&
+          !selection.isActive &&
+          !editingItem &&
           overlayActions.length > 0 && (
             <SelectionOverlay
               selectedItem={selectedRegistryItem}
@@ -555,14 +1221,24 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
           )}
 
         {/* Multiselect toolbar */}
-        {multiSelect.isActive && (
+        {selection.isActive && (
           <MultiSelectToolbar
-            count={multiSelect.count}
+            count={selection.count}
             allSameGroup={multiSelectGroupInfo.allSameGroup}
             anyGrouped={multiSelectGroupInfo.anyGrouped}
             onGroup={handleGroup}
             onUngroup={handleUngroup}
-            onClear={multiSelect.clear}
+            onClear={selection.clear}
+            onDelete={actions?.onDelete ? handleBulkDelete : undefined}
+            onDuplicate={
+              actions?.onDuplicate ? handleBulkDuplicate : undefined
+            }
+            onZIndexChange={
+              actions?.onZIndexChange ? handleBulkZIndexChange : undefined
+            }
+            onAlign={arrangeTools ? arrange.alignItems : undefined}
+            onDistribute={arrangeTools ? arrange.distributeItems : undefined}
+            onMatchSize={arrangeTools ? arrange.matchSize : undefined}
             renderToolbar={renderMultiSelectToolbar}
           />
         )}
@@ -573,6 +1249,8 @@ export const BoardCanvas = forwardRef<BoardCanvasRef, BoardCanvasProps>(
             scale={scale}
             translateX={translateX}
             translateY={translateY}
+            minScale={minScale}
+            maxScale={maxScale}
             {...(typeof zoomControls === "object" ? zoomControls : {})}
           />
         )}
@@ -5,6 +5,7 @@ import { SkiaImageItem } from "./SkiaImageItem";
 import { SkiaColorItem } from "./SkiaColorItem";
 import { SkiaTextItem } from "./SkiaTextItem";
 import { SkiaUrlItem } from "./SkiaUrlItem";
+import { LockBadge } from "./LockBadge";
 
 export interface DefaultItemRendererProps {
   item: RegistryItem;
@@ -18,11 +19,61 @@ export interface DefaultItemRendererProps {
   groupColor?: string;
   /** Font provider for Paragraph text rendering (required on web). */
   fontMgr?: SkTypefaceFontProvider;
+  /** Family for text without its own `fontFamily`. */
+  fontFamily?: string;
+  /** Families tried for glyphs the text's family lacks (emoji, CJK). */
+  fallbackFamilies?: string[];
+  /** Height needed by text / URL cards with `overflow: "autoHeight"`. */
+  onContentHeightChange?: (id: string, height: number) => void;
 }
 
+interface BorderProps {
+  isSelected: boolean;
+  isMultiSelected: boolean;
+  selectionColor?: string;
+  multiSelectionColor?: string;
+  groupColor?: string;
+}
+
+interface TextProps {
+  fontMgr?: SkTypefaceFontProvider;
+  fontFamily?: string;
+  fallbackFamilies?: string[];
+  onContentHeightChange?: (id: string, height: number) => void;
+}
+
+const renderContent = (
+  item: RegistryItem,
+  borderProps: BorderProps,
+  textProps: TextProps,
+) => {
+  switch (item.data.type) {
+    case "image":
+      return <SkiaImageItem item={item} {...borderProps} />;
+    case "color":
+      return (
+        <SkiaColorItem
+          item={item}
+          fontMgr={textProps.fontMgr}
+          fontFamily={textProps.fontFamily}
+          fallbackFamilies={textProps.fallbackFamilies}
+          {...borderProps}
+        />
+      );
+    case "text":
+      return <SkiaTextItem item={item} {...textProps} {...borderProps} />;
+    case "url":
+      return <SkiaUrlItem item={item} {...textProps} {...borderProps} />;
+    default:
+      // Unknown type — render as a plain image item (graceful fallback)
+      return <SkiaImageItem item={item} {...borderProps} />;
+  }
+};
+
 /**
  * Default item renderer that dispatches to the appropriate
- * type-specific Skia renderer based on `item.data.type`.
+ * type-specific Skia renderer based on `item.data.type`, and adds a
+ * lock badge to locked items.
  *
  * If `renderItem` is provided on `<BoardCanvas />`, this component
  * is bypassed entirely and the consumer controls all rendering.
@@ -35,8 +86,11 @@ export const DefaultItemRenderer = ({
   multiSelectionColor,
   groupColor,
   fontMgr,
+  fontFamily,
+  fallbackFamilies,
+  onContentHeightChange,
 }: DefaultItemRendererProps) => {
-  const borderProps = {
+  const borderProps: BorderProps = {
     isSelected,
     isMultiSelected,
     selectionColor,
@@ -44,17 +98,15 @@ export const DefaultItemRenderer = ({
     groupColor,
   };
 
-  switch (item.data.type) {
-    case "image":
-      return <SkiaImageItem item={item} {...borderProps} />;
-    case "color":
-      return <SkiaColorItem item={item} {...borderProps} />;
-    case "text":
-      return <SkiaTextItem item={item} fontMgr={fontMgr} {...borderProps} />;
-    case "url":
-      return <SkiaUrlItem item={item} fontMgr={fontMgr} {...borderProps} />;
-    default:
-      // Unknown type — render as a plain image item (graceful fallback)
-      return <SkiaImageItem item={item} {...borderProps} />;
-  }
+  return (
+    <>
+      {renderContent(item, borderProps, {
+        fontMgr,
+        fontFamily,
+        fallbackFamilies,
+        onContentHeightChange,
+      })}
+      {item.locked && <LockBadge item={item} />}
+    </>
+  );
 };
@@ -0,0 +1,67 @@
+import React from "react";
+import { Circle, Group, Path, Skia } from "@shopify/react-native-skia";
+import { useDerivedValue } from "react-native-reanimated";
+
+import { RegistryItem } from "./types";
+import { useRotationTransform } from "./useRotationTransform";
+
+export interface LockBadgeProps {
+  item: RegistryItem;
+  /** Badge diameter in canvas units. Default 20. */
+  size?: number;
+  /** Badge background. Default "rgba(0,0,0,0.45)". */
+  backgroundColor?: string;
+  /** Padlock color. Default "#FFFFFF". */
+  color?: string;
+}
+
+/**
+ * Small padlock drawn in the top-right corner of a locked item.
+ *
+ * The default renderer adds it for every item with `locked: true`; custom
+ * `renderItem` functions can render it themselves. Rotates with the item.
+ */
+export const LockBadge = ({
+  item,
+  size = 20,
+  backgroundColor = "rgba(0,0,0,0.45)",
+  color = "#FFFFFF",
+}: LockBadgeProps) => {
+  const transform = useRotationTransform(item);
+  const radius = size / 2;
+
+  const cx = useDerivedValue(
+    () => item.x.value + item.width.value - radius - 6,
+  );
+  const cy = useDerivedValue(() => item.y.value + radius + 6);
+
+  const padlock = useDerivedValue(() => {
+    const p = Skia.Path.Make();
+    const x = cx.value;
+    const y = cy.value;
+    const u = size / 20;
+    // Body
+    p.addRRect(
+      Skia.RRectXY(Skia.XYWHRect(x - 5 * u, y - 1 * u, 10 * u, 7 * u), u, u),
+    );
+    // Shackle
+    p.moveTo(x - 3 * u, y - 1 * u);
+    p.lineTo(x - 3 * u, y - 3 * u);
+    p.arcToTangent(x - 3 * u, y - 6 * u, x, y - 6 * u, 3 * u);
+    p.arcToTangent(x + 3 * u, y - 6 * u, x + 3 * u, y - 3 * u, 3 * u);
+    p.lineTo(x + 3 * u, y - 1 * u);
+    return p;
+  });
+
+  return (
+    <Group transform={transform}>
+      <Circle cx={cx} cy={cy} r={radius} color={backgroundColor} />
+      <Path
+        path={padlock}
+        color={color}
+        style="stroke"
+        strokeWidth={(size / 20) * 1.5}
+      />
+    </Group>
+  );
+};
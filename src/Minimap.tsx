@@ -1,8 +1,15 @@
-import { Rect, Group, RoundedRect } from "@shopify/react-native-skia";
+import {
+  Rect,
+  Group,
+  Path,
+  RoundedRect,
+  Skia,
+} from "@shopify/react-native-skia";
 import React, { useMemo } from "react";
 import { SharedValue, useDerivedValue } from "react-native-reanimated";
 
 import { RegistryItem } from "./types";
+import { getItemBounds, getItemFootprint, getRotatedCorners } from "./utils";
 
 // ─── Props ───────────────────────────────────────────────────────────────────
 
@@ -93,16 +100,13 @@ export const Minimap = ({
     let maxX = -Infinity;
     let maxY = -Infinity;
 
-    // Include all items
+    // Include all items (rotated footprints)
     for (const item of items) {
-      const ix = item.x.value;
-      const iy = item.y.value;
-      const iw = item.width.value;
-      const ih = item.height.value;
-      if (ix < minX) minX = ix;
-      if (iy < minY) minY = iy;
-      if (ix + iw > maxX) maxX = ix + iw;
-      if (iy + ih > maxY) maxY = iy + ih;
+      const b = getItemFootprint(item);
+      if (b.x < minX) minX = b.x;
+      if (b.y < minY) minY = b.y;
+      if (b.x + b.width > maxX) maxX = b.x + b.width;
+      if (b.y + b.height > maxY) maxY = b.y + b.height;
     }
 
     // Include the current viewport so it's never outside the minimap
@@ -149,18 +153,44 @@ export const Minimap = ({
     return Math.min(drawW / worldW, drawH / worldH);
   }, [drawW, drawH, worldW, worldH]);
 
-  // ─── Item rects ───────────────────────────────────────────────────
-
-  const itemRects = useMemo(
-    () =>
-      items.map((item) => ({
-        x: ox + PADDING + (item.x.value - worldBounds.minX) * mScale,
-        y: oy + PADDING + (item.y.value - worldBounds.minY) * mScale,
-        w: Math.max(item.width.value * mScale, 2),
-        h: Math.max(item.height.value * mScale, 2),
-      })),
-    [items, worldBounds, mScale, ox, oy],
-  );
+  // ─── Item shapes ──────────────────────────────────────────────────
+
+  // One path for all items; rotated items are drawn as rotated quads.
+  const itemsPath = useMemo(() => {
+    const path = Skia.Path.Make();
+    const toMinimap = (px: number, py: number) => ({
+      x: ox + PADDING + (px - worldBounds.minX) * mScale,
+      y: oy + PADDING + (py - worldBounds.minY) * mScale,
+    });
+
+    for (const item of items) {
+      const bounds = getItemBounds(item);
+      const rotation = item.rotation.value;
+
+      if (rotation % 360 === 0) {
+        const p = toMinimap(bounds.x, bounds.y);
+        path.addRect(
+          Skia.XYWHRect(
+            p.x,
+            p.y,
+            Math.max(bounds.width * mScale, 2),
+            Math.max(bounds.height * mScale, 2),
+          ),
+        );
+        continue;
+      }
+
+      const corners = getRotatedCorners(bounds, rotation).map((c) =>
+        toMinimap(c.x, c.y),
+      );
+      path.moveTo(corners[0].x, corners[0].y);
+      for (let i = 1; i < corners.length; i++) {
+        path.lineTo(corners[i].x, corners[i].y);
+      }
+      path.close();
+    }
+    return path;
+  }, [items, worldBounds, mScale, ox, oy]);
 
   // ─── Viewport (driven by shared values → animates) ────────────────
 
@@ -204,16 +234,7 @@ export const Minimap = ({
       />
 
       {/* Items */}
-      {itemRects.map((r, i) => (
-        <Rect
-          key={items[i]?.id ?? i}
-          x={r.x}
-          y={r.y}
-          width={r.w}
-          height={r.h}
-          color={itemColor}
-        />
-      ))}
+      <Path path={itemsPath} color={itemColor} />
 
       {/* Viewport fill */}
       <Rect x={vpX} y={vpY} width={vpW} height={vpH} color={viewportColor} />
@@ -1,5 +1,6 @@
 import React from "react";
 import { StyleSheet, TouchableOpacity, View, Text } from "react-native";
+import { AlignMode, DistributeAxis, MatchSizeDimension } from "./types";
 
 export interface MultiSelectToolbarProps {
   /** Number of items currently selected */
@@ -14,13 +15,36 @@ export interface MultiSelectToolbarProps {
   onUngroup: () => void;
   /** Callback to clear selection and exit multiselect */
   onClear: () => void;
+  /** Optional: delete all selected items. Shows the button when set. */
+  onDelete?: () => void;
+  /** Optional: duplicate all selected items. Shows the button when set. */
+  onDuplicate?: () => void;
+  /** Optional: move all selected items up / down one step. */
+  onZIndexChange?: (direction: "up" | "down") => void;
+  /** Optional: align selected items. Shows the align buttons when set. */
+  onAlign?: (mode: AlignMode) => void;
+  /** Optional: distribute selected items. Shown for 3+ items when set. */
+  onDistribute?: (axis: DistributeAxis) => void;
+  /** Optional: match selected items' sizes. Shows the buttons when set. */
+  onMatchSize?: (dimension: MatchSizeDimension) => void;
   /** Optional: render a custom toolbar. Receives the default props. */
   renderToolbar?: (props: MultiSelectToolbarProps) => React.ReactNode;
 }
 
+const ALIGN_BUTTONS: { mode: AlignMode; label: string }[] = [
+  { mode: "left", label: "Left" },
+  { mode: "center", label: "Center" },
+  { mode: "right", label: "Right" },
+  { mode: "top", label: "Top" },
+  { mode: "middle", label: "Middle" },
+  { mode: "bottom", label: "Bottom" },
+];
+
 /**
  * Default toolbar that appears at the bottom of the board when
- * multiselect is active. Provides Group / Ungroup / Clear actions.
+ * multiselect is active. Provides Group / Ungroup / Clear actions,
+ * optional bulk delete / duplicate / z-order buttons, and an optional
+ * row of align / distribute / match-size buttons.
  *
  * Uses only React Native primitives — no external UI library required.
  */
@@ -32,6 +56,12 @@ export const MultiSelectToolbar = (props: MultiSelectToolbarProps) => {
     onGroup,
     onUngroup,
     onClear,
+    onDelete,
+    onDuplicate,
+    onZIndexChange,
+    onAlign,
+    onDistribute,
+    onMatchSize,
     renderToolbar,
   } = props;
 
@@ -44,6 +74,7 @@ export const MultiSelectToolbar = (props: MultiSelectToolbarProps) => {
 
   const canGroup = count >= 2 && !allSameGroup;
   const canUngroup = anyGrouped;
+  const canArrange = count >= 2 && !!(onAlign || onDistribute || onMatchSize);
 
   return (
     <View style={styles.container}>
@@ -52,6 +83,45 @@ export const MultiSelectToolbar = (props: MultiSelectToolbarProps) => {
       </Text>
 
       <View style={styles.actions}>
+        {onZIndexChange && (
+          <>
+            <TouchableOpacity
+              style={[styles.button, styles.bulkButton]}
+              onPress={() => onZIndexChange("up")}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>↑</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.bulkButton]}
+              onPress={() => onZIndexChange("down")}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>↓</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {onDuplicate && (
+          <TouchableOpacity
+            style={[styles.button, styles.bulkButton]}
+            onPress={onDuplicate}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonText}>Duplicate</Text>
+          </TouchableOpacity>
+        )}
+
+        {onDelete && (
+          <TouchableOpacity
+            style={[styles.button, styles.deleteButton]}
+            onPress={onDelete}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.buttonText}>Delete</Text>
+          </TouchableOpacity>
+        )}
+
         {canGroup && (
           <TouchableOpacity
             style={[styles.button, styles.groupButton]}
@@ -80,6 +150,60 @@ export const MultiSelectToolbar = (props: MultiSelectToolbarProps) => {
           <Text style={styles.buttonText}>Clear</Text>
         </TouchableOpacity>
       </View>
+
+      {canArrange && (
+        <View style={styles.arrangeRow}>
+          {onAlign &&
+            ALIGN_BUTTONS.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.button, styles.arrangeButton]}
+                onPress={() => onAlign(mode)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.arrangeText}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+
+          {onDistribute && count >= 3 && (
+            <>
+              <TouchableOpacity
+                style={[styles.button, styles.arrangeButton]}
+                onPress={() => onDistribute("horizontal")}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.arrangeText}>Space H</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.arrangeButton]}
+                onPress={() => onDistribute("vertical")}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.arrangeText}>Space V</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {onMatchSize && (
+            <>
+              <TouchableOpacity
+                style={[styles.button, styles.arrangeButton]}
+                onPress={() => onMatchSize("width")}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.arrangeText}>Same W</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.arrangeButton]}
+                onPress={() => onMatchSize("height")}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.arrangeText}>Same H</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      )}
     </View>
   );
 };
@@ -95,6 +219,7 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     backgroundColor: "rgba(30, 30, 30, 0.95)",
     flexDirection: "row",
+    flexWrap: "wrap",
     alignItems: "center",
     justifyContent: "space-between",
     shadowColor: "#000",
@@ -123,6 +248,12 @@ const styles = StyleSheet.create({
   ungroupButton: {
     backgroundColor: "#9C27B0",
   },
+  bulkButton: {
+    backgroundColor: "rgba(255, 255, 255, 0.12)",
+  },
+  deleteButton: {
+    backgroundColor: "#F44336",
+  },
   clearButton: {
     backgroundColor: "transparent",
     borderWidth: 1,
@@ -133,4 +264,21 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: "600",
   },
+  arrangeRow: {
+    width: "100%",
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 10,
+  },
+  arrangeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: "rgba(255, 255, 255, 0.12)",
+  },
+  arrangeText: {
+    color: "#fff",
+    fontSize: 12,
+    fontWeight: "500",
+  },
 });
@@ -0,0 +1,95 @@
+import React from "react";
+import { Group, Path, Skia } from "@shopify/react-native-skia";
+import { SharedValue, useDerivedValue } from "react-native-reanimated";
+
+import { RegistryItem } from "./types";
+import { RESIZE_HANDLES } from "./utils";
+import { useRotationTransform } from "./useRotationTransform";
+
+export interface SelectionHandlesProps {
+  item: RegistryItem;
+  /** Camera scale shared value — keeps handles a constant size on screen. */
+  scale: SharedValue<number>;
+  /** Draw the eight resize handles. Default true. */
+  showResizeHandles?: boolean;
+  /**
+   * Distance of the rotate handle above the item in screen pixels.
+   * Omit to hide the rotate handle.
+   */
+  rotateHandleOffset?: number;
+  /** Handle size in screen pixels. Default 12. */
+  handleSize?: number;
+  /** Handle fill color. Default "#FFFFFF". */
+  handleColor?: string;
+  /** Handle border color. Default "#2196F3". */
+  handleBorderColor?: string;
+}
+
+/**
+ * Draws the resize handles and the rotate handle around the selected item.
+ *
+ * Rendered inside the camera `<Group>` and rotated with the item, so handle
+ * positions follow the item's shared values directly; sizes are divided by
+ * the camera scale to stay constant in screen space.
+ */
+export const SelectionHandles = ({
+  item,
+  scale,
+  showResizeHandles = true,
+  rotateHandleOffset,
+  handleSize = 12,
+  handleColor = "#FFFFFF",
+  handleBorderColor = "#2196F3",
+}: SelectionHandlesProps) => {
+  const transform = useRotationTransform(item);
+
+  const path = useDerivedValue(() => {
+    const p = Skia.Path.Make();
+    const size = handleSize / scale.value;
+    const half = size / 2;
+    if (showResizeHandles) {
+      for (const { fx, fy } of RESIZE_HANDLES) {
+        const hx = item.x.value + item.width.value * fx;
+        const hy = item.y.value + item.height.value * fy;
+        p.addRect(Skia.XYWHRect(hx - half, hy - half, size, size));
+      }
+    }
+    if (rotateHandleOffset !== undefined) {
+      const cx = item.x.value + item.width.value / 2;
+      const cy = item.y.value - rotateHandleOffset / scale.value;
+      p.addCircle(cx, cy, half);
+    }
+    return p;
+  });
+
+  // Connector from the top edge to the rotate handle
+  const connector = useDerivedValue(() => {
+    const p = Skia.Path.Make();
+    if (rotateHandleOffset === undefined) return p;
+    const cx = item.x.value + item.width.value / 2;
+    const top = item.y.value;
+    p.moveTo(cx, top);
+    p.lineTo(cx, top - (rotateHandleOffset - handleSize / 2) / scale.value);
+    return p;
+  });
+
+  const strokeWidth = useDerivedValue(() => 1.5 / scale.value);
+
+  return (
+    <Group transform={transform}>
+      <Path
+        path={connector}
+        color={handleBorderColor}
+        style="stroke"
+        strokeWidth={strokeWidth}
+      />
+      <Path path={path} color={handleColor} />
+      <Path
+        path={path}
+        color={handleBorderColor}
+        style="stroke"
+        strokeWidth={strokeWidth}
+      />
+    </Group>
+  );
+};
@@ -0,0 +1,61 @@
+import React from "react";
+import { Group, Path, Skia } from "@shopify/react-native-skia";
+import { SharedValue, useDerivedValue } from "react-native-reanimated";
+
+export interface SelectionMarqueeProps {
+  /** Flattened canvas-space outline `[x0, y0, x1, y1, ...]`. */
+  points: SharedValue<number[]>;
+  /** Camera scale shared value — keeps the stroke a constant width on screen. */
+  scale: SharedValue<number>;
+  /** `"marquee"` draws a rectangle between two points; `"lasso"` an outline. */
+  shape: "marquee" | "lasso";
+  /** Outline color. Default "#2196F3". */
+  color?: string;
+}
+
+/**
+ * Draws the in-progress marquee rectangle or lasso outline.
+ * Rendered inside the camera `<Group>`; updates on the UI thread.
+ */
+export const SelectionMarquee = ({
+  points,
+  scale,
+  shape,
+  color = "#2196F3",
+}: SelectionMarqueeProps) => {
+  const path = useDerivedValue(() => {
+    const p = Skia.Path.Make();
+    const pts = points.value;
+    if (pts.length < 4) return p;
+
+    if (shape === "marquee") {
+      const x = Math.min(pts[0], pts[2]);
+      const y = Math.min(pts[1], pts[3]);
+      const w = Math.abs(pts[2] - pts[0]);
+      const h = Math.abs(pts[3] - pts[1]);
+      p.addRect(Skia.XYWHRect(x, y, w, h));
+      return p;
+    }
+
+    p.moveTo(pts[0], pts[1]);
+    for (let i = 2; i + 1 < pts.length; i += 2) {
+      p.lineTo(pts[i], pts[i + 1]);
+    }
+    p.close();
+    return p;
+  });
+
+  const strokeWidth = useDerivedValue(() => 1.5 / scale.value);
+
+  return (
+    <Group>
+      <Path path={path} color={color} opacity={0.12} />
+      <Path
+        path={path}
+        color={color}
+        style="stroke"
+        strokeWidth={strokeWidth}
+      />
+    </Group>
+  );
+};
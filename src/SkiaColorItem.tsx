@@ -1,11 +1,23 @@
-import React from "react";
+import React, { useMemo } from "react";
 import {
   Group,
+  Paragraph,
   RoundedRect,
   Rect,
   DashPathEffect,
+  Skia,
+  SkTextStyle,
+  SkTypefaceFontProvider,
+  FontWeight,
+  rrect,
+  rect,
 } from "@shopify/react-native-skia";
+import { useDerivedValue } from "react-native-reanimated";
 import { RegistryItem, ColorBoardItem } from "./types";
+import { useRotationTransform } from "./useRotationTransform";
+import { useItemSize } from "./useItemSize";
+import { makeParagraphBuilder, resolveFontFamilies } from "./fonts";
+import { getColorValue, getContrastingTextColor } from "./colors";
 
 export interface SkiaColorItemProps {
   item: RegistryItem;
@@ -17,10 +29,33 @@ export interface SkiaColorItemProps {
   multiSelectionColor?: string;
   /** Group border color. Default "#9C27B0". */
   groupColor?: string;
+  /** Font provider for Paragraph text rendering (required on web). */
+  fontMgr?: SkTypefaceFontProvider;
+  /** Family for the caption text. Default: the system face. */
+  fontFamily?: string;
+  /** Families tried for glyphs the family lacks (emoji, CJK). */
+  fallbackFamilies?: string[];
 }
 
+const CAPTION_PADDING = 8;
+const CAPTION_GAP = 2;
+
+/** A single ellipsized caption line. */
+const makeCaptionLine = (
+  text: string,
+  textStyle: SkTextStyle,
+  width: number,
+  fontMgr?: SkTypefaceFontProvider,
+) => {
+  const style = { maxLines: 1, ellipsis: "\u2026", textStyle };
+  const p = makeParagraphBuilder(style, fontMgr).addText(text).build();
+  p.layout(width);
+  return p;
+};
+
 /**
- * Renders a solid color swatch on the Skia canvas.
+ * Renders a solid color swatch on the Skia canvas, with an optional
+ * caption strip along the bottom showing its label and color value.
  * All transforms are read directly from the registry's shared values.
  */
 export const SkiaColorItem = ({
@@ -30,11 +65,100 @@ export const SkiaColorItem = ({
   selectionColor = "#2196F3",
   multiSelectionColor = "#FF9800",
   groupColor = "#9C27B0",
+  fontMgr,
+  fontFamily,
+  fallbackFamilies,
 }: SkiaColorItemProps) => {
   const data = item.data as ColorBoardItem;
+  const transform = useRotationTransform(item);
+  const size = useItemSize(item);
+
+  const label = data.showLabel !== false ? data.label : undefined;
+  const value = data.showValue ? getColorValue(data) : undefined;
+  const textColor = useMemo(
+    () => getContrastingTextColor(data.color),
+    [data.color],
+  );
+  // Tint the strip away from the text color so the caption stays legible
+  const stripColor =
+    textColor === "#FFFFFF" ? "rgba(0,0,0,0.18)" : "rgba(255,255,255,0.45)";
+
+  const fontFamilies = useMemo(
+    () => resolveFontFamilies(fontFamily, fallbackFamilies),
+    [fontFamily, fallbackFamilies],
+  );
+  const captionWidth = Math.max(size.width - CAPTION_PADDING * 2, 20);
+
+  const caption = useMemo(() => {
+    if (!label && !value) return null;
+    const withFamilies = (style: SkTextStyle): SkTextStyle =>
+      fontFamilies ? { ...style, fontFamilies } : style;
+    const labelParagraph = label
+      ? makeCaptionLine(
+          label,
+          withFamilies({
+            fontSize: 13,
+            fontStyle: { weight: FontWeight.SemiBold },
+            color: Skia.Color(textColor),
+          }),
+          captionWidth,
+          fontMgr,
+        )
+      : null;
+    const valueParagraph = value
+      ? makeCaptionLine(
+          value,
+          withFamilies({ fontSize: 11, color: Skia.Color(textColor) }),
+          captionWidth,
+          fontMgr,
+        )
+      : null;
+    const labelHeight = labelParagraph?.getHeight() ?? 0;
+    const gap = labelParagraph && valueParagraph ? CAPTION_GAP : 0;
+    return {
+      labelParagraph,
+      valueParagraph,
+      valueOffset: labelHeight + gap,
+      height:
+        CAPTION_PADDING * 2 +
+        labelHeight +
+        gap +
+        (valueParagraph?.getHeight() ?? 0),
+    };
+  }, [label, value, textColor, captionWidth, fontMgr, fontFamilies]);
+
+  const captionHeight = caption?.height ?? 0;
+  const valueOffset = caption?.valueOffset ?? 0;
+
+  // Swatch outline, for rounding the strip's bottom corners
+  const swatchRRect = useDerivedValue(() =>
+    rrect(
+      rect(item.x.value, item.y.value, item.width.value, item.height.value),
+      8,
+      8,
+    ),
+  );
+  const stripY = useDerivedValue(
+    () => item.y.value + item.height.value - captionHeight,
+  );
+  const captionX = useDerivedValue(() => item.x.value + CAPTION_PADDING);
+  const labelY = useDerivedValue(
+    () => item.y.value + item.height.value - captionHeight + CAPTION_PADDING,
+  );
+  const valueY = useDerivedValue(
+    () =>
+      item.y.value +
+      item.height.value -
+      captionHeight +
+      CAPTION_PADDING +
+      valueOffset,
+  );
+  const captionTextWidth = useDerivedValue(() =>
+    Math.max(item.width.value - CAPTION_PADDING * 2, 20),
+  );
 
   return (
-    <Group>
+    <Group transform={transform}>
       {/* Filled color swatch */}
       <RoundedRect
         x={item.x}
@@ -45,6 +169,35 @@ export const SkiaColorItem = ({
         color={data.color}
       />
 
+      {/* Caption strip with label and value */}
+      {caption && (
+        <Group clip={swatchRRect}>
+          <Rect
+            x={item.x}
+            y={stripY}
+            width={item.width}
+            height={captionHeight}
+            color={stripColor}
+          />
+          {caption.labelParagraph && (
+            <Paragraph
+              paragraph={caption.labelParagraph}
+              x={captionX}
+              y={labelY}
+              width={captionTextWidth}
+            />
+          )}
+          {caption.valueParagraph && (
+            <Paragraph
+              paragraph={caption.valueParagraph}
+              x={captionX}
+              y={valueY}
+              width={captionTextWidth}
+            />
+          )}
+        </Group>
+      )}
+
       {/* Subtle inner border for very light colors */}
       <RoundedRect
         x={item.x}
@@ -1,40 +1,96 @@
-import { Group, Line } from "@shopify/react-native-skia";
+import {
+  Fill,
+  Group,
+  Line,
+  Path,
+  Points,
+  Skia,
+  vec,
+} from "@shopify/react-native-skia";
 import React, { Fragment } from "react";
+import { SharedValue, useDerivedValue } from "react-native-reanimated";
 
 export interface SkiaGridProps {
-  /** Distance between grid lines in canvas units. Default 50. */
+  /**
+   * Camera scale shared value. Without the camera values and view size,
+   * the grid is a fixed `gridCount` × `gridCount` grid in canvas units.
+   */
+  scale?: SharedValue<number>;
+  /** Camera translateX shared value. */
+  translateX?: SharedValue<number>;
+  /** Camera translateY shared value. */
+  translateY?: SharedValue<number>;
+  /** Width of the canvas view in screen pixels. */
+  width?: number;
+  /** Height of the canvas view in screen pixels. */
+  height?: number;
+
+  /** Distance between minor grid lines in canvas units. Default 50. */
   gridSize?: number;
-  /** Number of grid lines in each direction. Default 40. */
-  gridCount?: number;
-  /** Grid line color. Default "#ddd". */
+  /** Minor cells per major cell. Default 5. */
+  subdivisions?: number;
+  /** Draw lines or dots at the intersections. Default "lines". */
+  variant?: "lines" | "dots";
+  /** Minor line / dot color. Default "#ddd". */
   color?: string;
-  /** Grid line stroke width. Default 1. */
+  /** Major line / dot color. Default "#c4c4c4". */
+  majorColor?: string;
+  /** Line stroke width in screen pixels. Default 1. */
   strokeWidth?: number;
+  /** Dot diameter in screen pixels. Default 3. */
+  dotSize?: number;
+  /** Canvas background color, drawn behind the grid. */
+  backgroundColor?: string;
+  /**
+   * @deprecated Lines per direction of the fixed grid drawn without camera
+   * values. Default 40. The camera-driven grid covers the viewport.
+   */
+  gridCount?: number;
 }
 
+type CameraGridProps = SkiaGridProps & {
+  scale: SharedValue<number>;
+  translateX: SharedValue<number>;
+  translateY: SharedValue<number>;
+  width: number;
+  height: number;
+};
+
+/** Grid appearance options — the props `BoardCanvas` accepts via `grid`. */
+export type GridOptions = Omit<
+  SkiaGridProps,
+  "scale" | "translateX" | "translateY" | "width" | "height"
+>;
+
+/** Minor lines fade in between these on-screen spacings (px). */
+const FADE_START = 8;
+const FADE_END = 24;
+
 /**
- * Renders a background grid on the Skia canvas.
+ * Fixed grid from the origin, in canvas units — the grid drawn before it
+ * followed the camera, kept for `SkiaGrid` users without camera values.
  */
-export const SkiaGrid = ({
+const StaticGrid = ({
   gridSize = 50,
   gridCount = 40,
   color = "#ddd",
   strokeWidth = 1,
 }: SkiaGridProps) => {
+  const size = Math.max(gridSize, 1);
   return (
     <Group>
       {Array.from({ length: gridCount }).map((_, i) => (
         <Fragment key={i}>
           <Line
-            p1={{ x: i * gridSize, y: 0 }}
-            p2={{ x: i * gridSize, y: gridCount * gridSize }}
+            p1={{ x: i * size, y: 0 }}
+            p2={{ x: i * size, y: gridCount * size }}
             color={color}
             strokeWidth={strokeWidth}
             style="stroke"
           />
           <Line
-            p1={{ x: 0, y: i * gridSize }}
-            p2={{ x: gridCount * gridSize, y: i * gridSize }}
+            p1={{ x: 0, y: i * size }}
+            p2={{ x: gridCount * size, y: i * size }}
             color={color}
             strokeWidth={strokeWidth}
             style="stroke"
@@ -44,3 +100,196 @@ export const SkiaGrid = ({
     </Group>
   );
 };
+
+/**
+ * Infinite background grid driven by the camera shared values.
+ *
+ * Drawn in screen space (outside the camera `<Group>`) so it always covers
+ * the viewport, whatever the pan or zoom. Lines are built into one path per
+ * level (and dots into one `Points` draw) on the UI thread, instead of one
+ * element per line.
+ *
+ * Level of detail: when zooming out makes cells too dense, the grid steps
+ * up by `subdivisions` — the old major lines become the new minor lines —
+ * and minor lines fade in and out with their on-screen spacing.
+ */
+const CameraGrid = ({
+  scale,
+  translateX,
+  translateY,
+  width,
+  height,
+  gridSize = 50,
+  subdivisions = 5,
+  variant = "lines",
+  color = "#ddd",
+  majorColor = "#c4c4c4",
+  strokeWidth = 1,
+  dotSize = 3,
+  backgroundColor,
+}: CameraGridProps) => {
+  const divisions = Math.max(2, Math.round(subdivisions) || 2);
+  const size = Math.max(gridSize, 1) || 50;
+
+  // Current minor step in canvas units (stepped up when zoomed out)
+  const step = useDerivedValue(() => {
+    let s = size;
+    if (!(scale.value > 0)) return s;
+    while (s * scale.value < FADE_START) s *= divisions;
+    return s;
+  });
+
+  const minorOpacity = useDerivedValue(() => {
+    const px = step.value * scale.value;
+    const t = (px - FADE_START) / (FADE_END - FADE_START);
+    return Math.min(Math.max(t, 0), 1);
+  });
+
+  /**
+   * Visible grid line positions in screen pixels, split into minor and
+   * major lines per axis.
+   */
+  const lines = useDerivedValue(() => {
+    const s = scale.value;
+    const st = step.value;
+    const result = {
+      xMinor: [] as number[],
+      xMajor: [] as number[],
+      yMinor: [] as number[],
+      yMajor: [] as number[],
+    };
+
+    const firstX = Math.floor(-translateX.value / s / st);
+    const lastX = Math.ceil((width - translateX.value) / s / st);
+    for (let i = firstX; i <= lastX; i++) {
+      const sx = i * st * s + translateX.value;
+      (i % divisions === 0 ? result.xMajor : result.xMinor).push(sx);
+    }
+
+    const firstY = Math.floor(-translateY.value / s / st);
+    const lastY = Math.ceil((height - translateY.value) / s / st);
+    for (let i = firstY; i <= lastY; i++) {
+      const sy = i * st * s + translateY.value;
+      (i % divisions === 0 ? result.yMajor : result.yMinor).push(sy);
+    }
+    return result;
+  });
+
+  const minorPath = useDerivedValue(() => {
+    const p = Skia.Path.Make();
+    if (variant !== "lines" || minorOpacity.value === 0) return p;
+    for (const x of lines.value.xMinor) {
+      p.moveTo(x, 0);
+      p.lineTo(x, height);
+    }
+    for (const y of lines.value.yMinor) {
+      p.moveTo(0, y);
+      p.lineTo(width, y);
+    }
+    return p;
+  });
+
+  const majorPath = useDerivedValue(() => {
+    const p = Skia.Path.Make();
+    if (variant !== "lines") return p;
+    for (const x of lines.value.xMajor) {
+      p.moveTo(x, 0);
+      p.lineTo(x, height);
+    }
+    for (const y of lines.value.yMajor) {
+      p.moveTo(0, y);
+      p.lineTo(width, y);
+    }
+    return p;
+  });
+
+  const minorDots = useDerivedValue(() => {
+    if (variant !== "dots" || minorOpacity.value === 0) return [];
+    const { xMinor, xMajor, yMinor, yMajor } = lines.value;
+    const xs = [...xMinor, ...xMajor];
+    const pts = [];
+    // Every intersection except major × major
+    for (const x of xs) for (const y of yMinor) pts.push(vec(x, y));
+    for (const x of xMinor) for (const y of yMajor) pts.push(vec(x, y));
+    return pts;
+  });
+
+  const majorDots = useDerivedValue(() => {
+    if (variant !== "dots") return [];
+    const { xMajor, yMajor } = lines.value;
+    const pts = [];
+    for (const x of xMajor) for (const y of yMajor) pts.push(vec(x, y));
+    return pts;
+  });
+
+  return (
+    <Group>
+      {backgroundColor && <Fill color={backgroundColor} />}
+
+      {variant === "lines" ? (
+        <>
+          <Path
+            path={minorPath}
+            color={color}
+            style="stroke"
+            strokeWidth={strokeWidth}
+            opacity={minorOpacity}
+          />
+          <Path
+            path={majorPath}
+            color={majorColor}
+            style="stroke"
+            strokeWidth={strokeWidth}
+          />
+        </>
+      ) : (
+        <>
+          <Points
+            points={minorDots}
+            mode="points"
+            color={color}
+            style="stroke"
+            strokeWidth={dotSize}
+            strokeCap="round"
+            opacity={minorOpacity}
+          />
+          <Points
+            points={majorDots}
+            mode="points"
+            color={majorColor}
+            style="stroke"
+            strokeWidth={dotSize}
+            strokeCap="round"
+          />
+        </>
+      )}
+    </Group>
+  );
+};
+
+/**
+ * Background grid. Given the camera shared values and view size it is the
+ * infinite, camera-aware grid; without them, the fixed canvas-space grid.
+ */
+export const SkiaGrid = (props: SkiaGridProps) => {
+  const { scale, translateX, translateY, width, height } = props;
+  if (
+    !scale ||
+    !translateX ||
+    !translateY ||
+    width === undefined ||
+    height === undefined
+  ) {
+    return <StaticGrid {...props} />;
+  }
+  return (
+    <CameraGrid
+      {...props}
+      scale={scale}
+      translateX={translateX}
+      translateY={translateY}
+      width={width}
+      height={height}
+    />
+  );
+};
@@ -1,6 +1,7 @@
 import React from "react";
 import { Group, Image, Rect, DashPathEffect } from "@shopify/react-native-skia";
 import { RegistryItem } from "./types";
+import { useRotationTransform } from "./useRotationTransform";
 
 export interface SkiaImageItemProps {
   item: RegistryItem;
@@ -27,10 +28,12 @@ export const SkiaImageItem = ({
   multiSelectionColor = "#FF9800",
   groupColor = "#9C27B0",
 }: SkiaImageItemProps) => {
+  const transform = useRotationTransform(item);
+
   if (!item.image) return null;
 
   return (
-    <Group>
+    <Group transform={transform}>
       <Image
         image={item.image}
         x={item.x}
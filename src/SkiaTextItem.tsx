@@ -1,4 +1,4 @@
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo } from "react";
 import {
   Group,
   Paragraph,
@@ -6,10 +6,35 @@ import {
   Rect,
   DashPathEffect,
   Skia,
+  SkParagraphStyle,
+  SkTextStyle,
   SkTypefaceFontProvider,
+  FontSlant,
+  FontWeight,
+  TextAlign,
+  TextDecoration,
+  rrect,
+  rect,
 } from "@shopify/react-native-skia";
 import { useDerivedValue } from "react-native-reanimated";
-import { RegistryItem, TextBoardItem } from "./types";
+import {
+  RegistryItem,
+  TextAlignment,
+  TextBoardItem,
+  TextSpan,
+} from "./types";
+import {
+  applyBullets,
+  countLinesThatFit,
+  parseMarkdown,
+} from "./richText";
+import { useRotationTransform } from "./useRotationTransform";
+import { useItemSize } from "./useItemSize";
+import {
+  makeParagraphBuilder,
+  resolveFontFamilies,
+  toSkiaFontWeight,
+} from "./fonts";
 
 export interface SkiaTextItemProps {
   item: RegistryItem;
@@ -23,13 +48,113 @@ export interface SkiaTextItemProps {
   groupColor?: string;
   /** Font provider for Paragraph text rendering (required on web). */
   fontMgr?: SkTypefaceFontProvider;
+  /** Family for notes without their own `fontFamily`. */
+  fontFamily?: string;
+  /** Families tried for glyphs the note's family lacks (emoji, CJK). */
+  fallbackFamilies?: string[];
+  /**
+   * Called with the height the text needs when `overflow` is
+   * `"autoHeight"` and it differs from the item's height.
+   */
+  onContentHeightChange?: (id: string, height: number) => void;
+}
+
+/** Inner padding of text items in canvas units (shared with the editor). */
+export const TEXT_ITEM_PADDING = 12;
+
+const TEXT_ALIGN: Record<TextAlignment, TextAlign> = {
+  left: TextAlign.Left,
+  center: TextAlign.Center,
+  right: TextAlign.Right,
+  justify: TextAlign.Justify,
+};
+
+/**
+ * Full text style for a span. Pushed styles don't inherit from the one
+ * below them, so each span starts from the note's base style.
+ */
+const getSpanStyle = (
+  span: TextSpan,
+  base: SkTextStyle,
+  linkColor: string,
+): SkTextStyle => {
+  let decoration = 0;
+  if (span.underline || span.link) decoration |= TextDecoration.Underline;
+  if (span.strikethrough) decoration |= TextDecoration.LineThrough;
+
+  const style: SkTextStyle = { ...base };
+  if (span.bold || span.italic) {
+    style.fontStyle = {
+      weight: span.bold
+        ? FontWeight.Bold
+        : (base.fontStyle?.weight ?? FontWeight.Normal),
+      slant: span.italic ? FontSlant.Italic : FontSlant.Upright,
+    };
+  }
+  if (decoration) style.decoration = decoration;
+  const color = span.color ?? (span.link ? linkColor : undefined);
+  if (color) style.color = Skia.Color(color);
+  return style;
+};
+
+interface FontProps {
+  fontMgr?: SkTypefaceFontProvider;
+  fontFamily?: string;
+  fallbackFamilies?: string[];
 }
 
-const PADDING = 12;
+/** Lays out a note's text at the item width, optionally capped in lines. */
+const buildParagraph = (
+  data: TextBoardItem,
+  width: number,
+  { fontMgr, fontFamily, fallbackFamilies }: FontProps,
+  maxLines?: number,
+) => {
+  const spans = data.spans
+    ? applyBullets(data.spans)
+    : data.markdown
+      ? parseMarkdown(data.text)
+      : [{ text: data.text }];
+  const layoutWidth = Math.max(width - TEXT_ITEM_PADDING * 2, 50);
+
+  const paragraphStyle: SkParagraphStyle = {
+    textAlign: TEXT_ALIGN[data.textAlign ?? "left"],
+  };
+  if (maxLines !== undefined) {
+    paragraphStyle.maxLines = maxLines;
+    paragraphStyle.ellipsis = "\u2026";
+  }
+  const builder = makeParagraphBuilder(paragraphStyle, fontMgr);
+  const base: SkTextStyle = {
+    fontSize: data.fontSize ?? 16,
+    color: Skia.Color(data.fontColor ?? "#333333"),
+  };
+  if (data.lineHeight) base.heightMultiplier = data.lineHeight;
+  if (data.fontWeight !== undefined) {
+    base.fontStyle = { weight: toSkiaFontWeight(data.fontWeight) };
+  }
+  const families = resolveFontFamilies(
+    data.fontFamily ?? fontFamily,
+    fallbackFamilies,
+  );
+  if (families) base.fontFamilies = families;
+  builder.pushStyle(base);
+  for (const span of spans) {
+    builder
+      .pushStyle(getSpanStyle(span, base, data.linkColor ?? "#1E88E5"))
+      .addText(span.text)
+      .pop();
+  }
+  const p = builder.pop().build();
+
+  p.layout(layoutWidth);
+  return p;
+};
 
 /**
  * Renders a text note on the Skia canvas with an optional background color.
- * Uses the Skia Paragraph API with system fonts.
+ * Text is built span by span through the Skia ParagraphBuilder
+ * (`pushStyle` / `pop`), from `spans`, markdown, or plain `text`.
  */
 export const SkiaTextItem = ({
   item,
@@ -39,42 +164,55 @@ export const SkiaTextItem = ({
   multiSelectionColor = "#FF9800",
   groupColor = "#9C27B0",
   fontMgr,
+  fontFamily,
+  fallbackFamilies,
+  onContentHeightChange,
 }: SkiaTextItemProps) => {
   const data = item.data as TextBoardItem;
+  const transform = useRotationTransform(item);
+  const { width, height } = useItemSize(item);
+
+  const overflow = data.overflow ?? "visible";
+  // Room for text when ellipsizing to the item height
+  const available =
+    overflow === "ellipsis" ? height - TEXT_ITEM_PADDING * 2 : Infinity;
 
   const paragraph = useMemo(() => {
-    const fontSize = data.fontSize ?? 16;
-    const fontColor = data.fontColor ?? "#333333";
-    const layoutWidth = Math.max((data.width ?? 200) - PADDING * 2, 50);
-
-    const p = (fontMgr
-      ? Skia.ParagraphBuilder.Make({
-          textStyle: {
-            fontSize,
-            color: Skia.Color(fontColor),
-          },
-        }, fontMgr)
-      : Skia.ParagraphBuilder.Make({
-          textStyle: {
-            fontSize,
-            color: Skia.Color(fontColor),
-          },
-        }))
-      .addText(data.text)
-      .build();
-
-    p.layout(layoutWidth);
-    return p;
-  }, [data.text, data.fontSize, data.fontColor, data.width, fontMgr]);
-
-  const textX = useDerivedValue(() => item.x.value + PADDING);
-  const textY = useDerivedValue(() => item.y.value + PADDING);
+    const fonts = { fontMgr, fontFamily, fallbackFamilies };
+    const p = buildParagraph(data, width, fonts);
+    const lines = countLinesThatFit(p, available);
+    return lines === null
+      ? p
+      : buildParagraph(data, width, fonts, Math.max(lines, 1));
+  }, [data, width, available, fontMgr, fontFamily, fallbackFamilies]);
+
+  // Fit the item to its text; the canvas persists the new height
+  const contentHeight =
+    overflow === "autoHeight"
+      ? Math.ceil(paragraph.getHeight() + TEXT_ITEM_PADDING * 2)
+      : null;
+  useEffect(() => {
+    if (contentHeight !== null && contentHeight !== item.height.value) {
+      onContentHeightChange?.(item.id, contentHeight);
+    }
+  }, [contentHeight, item, onContentHeightChange]);
+
+  const clip = useDerivedValue(() =>
+    rrect(
+      rect(item.x.value, item.y.value, item.width.value, item.height.value),
+      8,
+      8,
+    ),
+  );
+
+  const textX = useDerivedValue(() => item.x.value + TEXT_ITEM_PADDING);
+  const textY = useDerivedValue(() => item.y.value + TEXT_ITEM_PADDING);
   const textWidth = useDerivedValue(() =>
-    Math.max(item.width.value - PADDING * 2, 50),
+    Math.max(item.width.value - TEXT_ITEM_PADDING * 2, 50),
   );
 
   return (
-    <Group>
+    <Group transform={transform}>
       {/* Background */}
       <RoundedRect
         x={item.x}
@@ -85,8 +223,15 @@ export const SkiaTextItem = ({
         color={data.backgroundColor ?? "#FFFDE7"}
       />
 
-      {/* Text content */}
-      <Paragraph paragraph={paragraph} x={textX} y={textY} width={textWidth} />
+      {/* Text content (clipped to the card with overflow "clip") */}
+      <Group clip={overflow === "clip" ? clip : undefined}>
+        <Paragraph
+          paragraph={paragraph}
+          x={textX}
+          y={textY}
+          width={textWidth}
+        />
+      </Group>
 
       {/* Single-selection border (solid) */}
       {isSelected && !isMultiSelected && (
@@ -12,9 +12,15 @@ import {
   rrect,
   rect,
   SkTypefaceFontProvider,
+  SkParagraphStyle,
+  FontWeight,
 } from "@shopify/react-native-skia";
 import { useDerivedValue } from "react-native-reanimated";
 import { RegistryItem, UrlBoardItem } from "./types";
+import { useRotationTransform } from "./useRotationTransform";
+import { useItemSize } from "./useItemSize";
+import { countLinesThatFit } from "./richText";
+import { makeParagraphBuilder, resolveFontFamilies } from "./fonts";
 
 export interface SkiaUrlItemProps {
   item: RegistryItem;
@@ -28,12 +34,39 @@ export interface SkiaUrlItemProps {
   groupColor?: string;
   /** Font provider for Paragraph text rendering (required on web). */
   fontMgr?: SkTypefaceFontProvider;
+  /** Family for the card's text. Default: the system face. */
+  fontFamily?: string;
+  /** Families tried for glyphs the family lacks (emoji, CJK). */
+  fallbackFamilies?: string[];
+  /**
+   * Called with the height the card needs when `overflow` is
+   * `"autoHeight"` and it differs from the item's height.
+   */
+  onContentHeightChange?: (id: string, height: number) => void;
 }
 
 const PADDING = 12;
 const ACCENT_WIDTH = 4;
 const IMAGE_HEIGHT = 100;
 
+const makeParagraph = (
+  text: string,
+  paragraphStyle: SkParagraphStyle,
+  width: number,
+  fontMgr?: SkTypefaceFontProvider,
+  fontFamilies?: string[],
+) => {
+  const style = fontFamilies
+    ? {
+        ...paragraphStyle,
+        textStyle: { ...paragraphStyle.textStyle, fontFamilies },
+      }
+    : paragraphStyle;
+  const p = makeParagraphBuilder(style, fontMgr).addText(text).build();
+  p.layout(width);
+  return p;
+};
+
 /**
  * Renders a URL/link card on the Skia canvas.
  * Displays a white card with an optional OG image, colored accent bar, title, and URL text.
@@ -46,8 +79,13 @@ export const SkiaUrlItem = ({
   multiSelectionColor = "#FF9800",
   groupColor = "#9C27B0",
   fontMgr,
+  fontFamily,
+  fallbackFamilies,
+  onContentHeightChange,
 }: SkiaUrlItemProps) => {
   const data = item.data as UrlBoardItem;
+  const transform = useRotationTransform(item);
+  const size = useItemSize(item);
   const [ogImage, setOgImage] = useState<SkImage | null>(null);
 
   // Load the OG image from public URL
@@ -88,78 +126,121 @@ export const SkiaUrlItem = ({
   const hasImage = ogImage !== null;
   const textTopOffset = hasImage ? IMAGE_HEIGHT : 0;
 
-  const contentWidth = Math.max(
-    (data.width ?? 200) - PADDING * 2 - ACCENT_WIDTH,
-    50,
+  const contentWidth = Math.max(size.width - PADDING * 2 - ACCENT_WIDTH, 50);
+
+  const fontFamilies = useMemo(
+    () => resolveFontFamilies(fontFamily, fallbackFamilies),
+    [fontFamily, fallbackFamilies],
+  );
+
+  const overflow = data.overflow ?? "visible";
+  // Room for text below the image when ellipsizing to the card height
+  const available =
+    overflow === "ellipsis"
+      ? size.height - textTopOffset - PADDING * 2
+      : Infinity;
+
+  // URL paragraph (smaller, dimmer)
+  const urlParagraph = useMemo(
+    () =>
+      makeParagraph(
+        data.url,
+        {
+          maxLines: 1,
+          ellipsis: "\u2026",
+          textStyle: { fontSize: 11, color: Skia.Color("#888888") },
+        },
+        contentWidth,
+        fontMgr,
+        fontFamilies,
+      ),
+    [data.url, contentWidth, fontMgr, fontFamilies],
   );
+  const urlHeight = urlParagraph.getHeight();
 
   // Title paragraph (bold, larger)
   const titleParagraph = useMemo(() => {
-    const style = {
-      maxLines: 2,
-      ellipsis: "\u2026",
-      textStyle: {
-        fontSize: 14,
-        fontStyle: { weight: 700 },
-        color: Skia.Color("#1a1a1a"),
-      },
-    } as const;
-    const p = (fontMgr
-      ? Skia.ParagraphBuilder.Make(style, fontMgr)
-      : Skia.ParagraphBuilder.Make(style))
-      .addText(data.title || data.url)
-      .build();
-
-    p.layout(contentWidth);
-    return p;
-  }, [data.title, data.url, contentWidth, fontMgr]);
+    const build = (maxLines: number) =>
+      makeParagraph(
+        data.title || data.url,
+        {
+          maxLines,
+          ellipsis: "\u2026",
+          textStyle: {
+            fontSize: 14,
+            fontStyle: { weight: FontWeight.Bold },
+            color: Skia.Color("#1a1a1a"),
+          },
+        },
+        contentWidth,
+        fontMgr,
+        fontFamilies,
+      );
+    const p = build(2);
+    const lines = countLinesThatFit(p, available - urlHeight - 4);
+    return lines === null ? p : build(Math.max(lines, 1));
+  }, [
+    data.title,
+    data.url,
+    contentWidth,
+    fontMgr,
+    fontFamilies,
+    available,
+    urlHeight,
+  ]);
+  const titleHeight = titleParagraph.getHeight();
 
-  // URL paragraph (smaller, dimmer)
-  const urlParagraph = useMemo(() => {
-    const style = {
-      maxLines: 1,
-      ellipsis: "\u2026",
-      textStyle: {
-        fontSize: 11,
-        color: Skia.Color("#888888"),
-      },
-    } as const;
-    const p = (fontMgr
-      ? Skia.ParagraphBuilder.Make(style, fontMgr)
-      : Skia.ParagraphBuilder.Make(style))
-      .addText(data.url)
-      .build();
-
-    p.layout(contentWidth);
-    return p;
-  }, [data.url, contentWidth, fontMgr]);
-
-  // Description paragraph (optional)
+  // Description paragraph (optional), dropped when no line fits
   const descParagraph = useMemo(() => {
     if (!data.description) return null;
-
-    const style = {
-      maxLines: 3,
-      ellipsis: "\u2026",
-      textStyle: {
-        fontSize: 12,
-        color: Skia.Color("#555555"),
-      },
-    } as const;
-    const p = (fontMgr
-      ? Skia.ParagraphBuilder.Make(style, fontMgr)
-      : Skia.ParagraphBuilder.Make(style))
-      .addText(data.description)
-      .build();
-
-    p.layout(contentWidth);
-    return p;
-  }, [data.description, contentWidth, fontMgr]);
-
-  // Pre-computed paragraph heights for layout
-  const titleHeight = titleParagraph.getHeight();
+    const description = data.description;
+    const build = (maxLines: number) =>
+      makeParagraph(
+        description,
+        {
+          maxLines,
+          ellipsis: "\u2026",
+          textStyle: { fontSize: 12, color: Skia.Color("#555555") },
+        },
+        contentWidth,
+        fontMgr,
+        fontFamilies,
+      );
+    const p = build(3);
+    const lines = countLinesThatFit(
+      p,
+      available - titleHeight - urlHeight - 8,
+    );
+    if (lines === null) return p;
+    return lines > 0 ? build(lines) : null;
+  }, [
+    data.description,
+    contentWidth,
+    fontMgr,
+    fontFamilies,
+    available,
+    titleHeight,
+    urlHeight,
+  ]);
   const descHeight = descParagraph?.getHeight() ?? 0;
 
+  // Fit the card to its content; the canvas persists the new height
+  const contentHeight =
+    overflow === "autoHeight"
+      ? Math.ceil(
+          textTopOffset +
+            PADDING * 2 +
+            titleHeight +
+            (descHeight > 0 ? descHeight + 8 : 4) +
+            urlHeight,
+        )
+      : null;
+  useEffect(() => {
+    if (contentHeight !== null && contentHeight !== item.height.value) {
+      onContentHeightChange?.(item.id, contentHeight);
+    }
+  }, [contentHeight, item, onContentHeightChange]);
+
   // Derived positions using shared values
   const accentY = useDerivedValue(() => item.y.value + textTopOffset + 8);
   const accentHeight = useDerivedValue(
@@ -189,6 +270,15 @@ export const SkiaUrlItem = ({
   const imgY = useDerivedValue(() => item.y.value);
   const imgWidth = useDerivedValue(() => item.width.value);
 
+  // Card outline, for clipping text with overflow "clip"
+  const cardRRect = useDerivedValue(() =>
+    rrect(
+      rect(item.x.value, item.y.value, item.width.value, item.height.value),
+      8,
+      8,
+    ),
+  );
+
   // Clip rect for rounding the top corners of the image
   const clipRRect = useDerivedValue(() =>
     rrect(
@@ -199,7 +289,7 @@ export const SkiaUrlItem = ({
   );
 
   return (
-    <Group>
+    <Group transform={transform}>
       {/* Card background */}
       <RoundedRect
         x={item.x}
@@ -234,31 +324,34 @@ export const SkiaUrlItem = ({
         color="#2196F3"
       />
 
-      {/* Title */}
-      <Paragraph
-        paragraph={titleParagraph}
-        x={titleX}
-        y={titleY}
-        width={textWidth}
-      />
-
-      {/* Description (optional) */}
-      {descParagraph && (
+      {/* Text (clipped to the card with overflow "clip") */}
+      <Group clip={overflow === "clip" ? cardRRect : undefined}>
+        {/* Title */}
         <Paragraph
-          paragraph={descParagraph}
+          paragraph={titleParagraph}
           x={titleX}
-          y={descY}
+          y={titleY}
           width={textWidth}
         />
-      )}
 
-      {/* URL */}
-      <Paragraph
-        paragraph={urlParagraph}
-        x={titleX}
-        y={urlY}
-        width={textWidth}
-      />
+        {/* Description (optional) */}
+        {descParagraph && (
+          <Paragraph
+            paragraph={descParagraph}
+            x={titleX}
+            y={descY}
+            width={textWidth}
+          />
+        )}
+
+        {/* URL */}
+        <Paragraph
+          paragraph={urlParagraph}
+          x={titleX}
+          y={urlY}
+          width={textWidth}
+        />
+      </Group>
 
       {/* Card subtle border */}
       <RoundedRect
@@ -0,0 +1,75 @@
+import React from "react";
+import { Group, Path, Skia } from "@shopify/react-native-skia";
+import { SharedValue, useDerivedValue } from "react-native-reanimated";
+
+import { AlignmentGuides } from "./types";
+
+export interface SmartGuidesProps {
+  /** Guides for the current drag, from the gesture controller. */
+  guides: SharedValue<AlignmentGuides>;
+  /** Camera scale shared value — keeps strokes a constant width on screen. */
+  scale: SharedValue<number>;
+  /** Guide color. Default "#FF00FF". */
+  color?: string;
+}
+
+/** Length of the end ticks on spacing indicators, in screen pixels. */
+const TICK = 8;
+
+/**
+ * Draws alignment lines and equal-spacing indicators while an item is
+ * dragged. Rendered inside the camera `<Group>`; updates on the UI thread.
+ */
+export const SmartGuides = ({
+  guides,
+  scale,
+  color = "#FF00FF",
+}: SmartGuidesProps) => {
+  const path = useDerivedValue(() => {
+    const p = Skia.Path.Make();
+    const { lines, gaps } = guides.value;
+
+    for (let i = 0; i + 3 < lines.length; i += 4) {
+      p.moveTo(lines[i], lines[i + 1]);
+      p.lineTo(lines[i + 2], lines[i + 3]);
+    }
+
+    // Gaps are axis-aligned; ticks run across them at both ends
+    const half = TICK / 2 / scale.value;
+    for (let i = 0; i + 3 < gaps.length; i += 4) {
+      const x0 = gaps[i];
+      const y0 = gaps[i + 1];
+      const x1 = gaps[i + 2];
+      const y1 = gaps[i + 3];
+      const horizontal = y0 === y1;
+      p.moveTo(x0, y0);
+      p.lineTo(x1, y1);
+      for (const [x, y] of [
+        [x0, y0],
+        [x1, y1],
+      ]) {
+        if (horizontal) {
+          p.moveTo(x, y - half);
+          p.lineTo(x, y + half);
+        } else {
+          p.moveTo(x - half, y);
+          p.lineTo(x + half, y);
+        }
+      }
+    }
+    return p;
+  });
+
+  const strokeWidth = useDerivedValue(() => 1 / scale.value);
+
+  return (
+    <Group>
+      <Path
+        path={path}
+        color={color}
+        style="stroke"
+        strokeWidth={strokeWidth}
+      />
+    </Group>
+  );
+};
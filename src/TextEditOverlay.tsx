@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from "react";
+import { StyleSheet, TextInput, TextStyle } from "react-native";
+import { RegistryItem, TextBoardItem, TextFontWeight } from "./types";
+import { TEXT_ITEM_PADDING } from "./SkiaTextItem";
+
+export interface TextEditOverlayProps {
+  /** The text item being edited. */
+  item: RegistryItem;
+  /** Camera transform to position the editor over the item */
+  cameraX: number;
+  cameraY: number;
+  cameraScale: number;
+  /** Editor border color. Default "#2196F3". */
+  borderColor?: string;
+  /**
+   * Family for notes without their own `fontFamily`. The family must also
+   * be available to React Native (e.g. loaded with expo-font).
+   */
+  fontFamily?: string;
+  /**
+   * Called once when editing ends (blur / keyboard dismissed) with the
+   * final text and whether the item grew while typing.
+   */
+  onCommit: (text: string, heightChanged: boolean) => void;
+}
+
+const toTextInputWeight = (
+  weight: TextFontWeight | undefined,
+): TextStyle["fontWeight"] =>
+  weight === undefined
+    ? undefined
+    : (String(weight) as TextStyle["fontWeight"]);
+
+/**
+ * Native `TextInput` placed exactly over a text item, matching its font
+ * size, color, padding, background, and rotation at the current camera
+ * scale. Positioned the same way as `SelectionOverlay`.
+ *
+ * The item grows in height (never shrinks below its starting height) as
+ * the text wraps onto more lines, writing straight to its shared values so
+ * the Skia background follows.
+ */
+export const TextEditOverlay = ({
+  item,
+  cameraX,
+  cameraY,
+  cameraScale,
+  borderColor = "#2196F3",
+  fontFamily,
+  onCommit,
+}: TextEditOverlayProps) => {
+  const data = item.data as TextBoardItem;
+  const [text, setText] = useState(data.text);
+  const startHeight = useRef(item.height.value).current;
+  const [height, setHeight] = useState(startHeight);
+  const committed = useRef(false);
+
+  // Restore the height if the editor goes away without committing
+  useEffect(
+    () => () => {
+      if (!committed.current) item.height.value = startHeight;
+    },
+    [item, startHeight],
+  );
+
+  const handleContentSize = (contentHeight: number) => {
+    const next = Math.max(
+      startHeight,
+      contentHeight / cameraScale + TEXT_ITEM_PADDING * 2,
+    );
+    if (next === height) return;
+    item.height.value = next;
+    setHeight(next);
+  };
+
+  const handleEndEditing = () => {
+    if (committed.current) return;
+    committed.current = true;
+    onCommit(text, height !== startHeight);
+  };
+
+  const padding = TEXT_ITEM_PADDING * cameraScale;
+
+  return (
+    <TextInput
+      style={[
+        styles.input,
+        {
+          left: item.x.value * cameraScale + cameraX,
+          top: item.y.value * cameraScale + cameraY,
+          width: item.width.value * cameraScale,
+          height: height * cameraScale,
+          padding,
+          // Multiline inputs add their own top inset on iOS otherwise
+          paddingTop: padding,
+          borderRadius: 8 * cameraScale,
+          borderColor,
+          backgroundColor: data.backgroundColor ?? "#FFFDE7",
+          color: data.fontColor ?? "#333333",
+          fontSize: (data.fontSize ?? 16) * cameraScale,
+          fontFamily: data.fontFamily ?? fontFamily,
+          fontWeight: toTextInputWeight(data.fontWeight),
+          transform: [{ rotate: `${item.rotation.value}deg` }],
+        },
+      ]}
+      value={text}
+      onChangeText={setText}
+      onContentSizeChange={(e) =>
+        handleContentSize(e.nativeEvent.contentSize.height)
+      }
+      onEndEditing={handleEndEditing}
+      onBlur={handleEndEditing}
+      multiline
+      autoFocus
+      scrollEnabled={false}
+      textAlignVertical="top"
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  input: {
+    position: "absolute",
+    borderWidth: 2,
+    zIndex: 1000,
+  },
+});
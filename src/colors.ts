@@ -0,0 +1,54 @@
+import { Skia } from "@shopify/react-native-skia";
+import { ColorBoardItem, ColorValueFormat } from "./types";
+
+const toByte = (channel: number) => Math.round(channel * 255);
+
+const toHexByte = (channel: number) =>
+  toByte(channel).toString(16).padStart(2, "0").toUpperCase();
+
+/**
+ * Formats any CSS color as `#RRGGBB` or `rgb(r, g, b)`. Translucent colors
+ * keep their alpha (`#RRGGBBAA` / `rgba(r, g, b, a)`).
+ */
+export const formatColor = (
+  color: string,
+  format: ColorValueFormat,
+): string => {
+  const [r, g, b, a] = Skia.Color(color);
+  const opaque = a >= 1;
+  if (format === "rgb") {
+    const channels = `${toByte(r)}, ${toByte(g)}, ${toByte(b)}`;
+    return opaque
+      ? `rgb(${channels})`
+      : `rgba(${channels}, ${Math.round(a * 100) / 100})`;
+  }
+  return `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}${
+    opaque ? "" : toHexByte(a)
+  }`;
+};
+
+/** The value a swatch shows in its caption and copies. */
+export const getColorValue = (data: ColorBoardItem): string =>
+  formatColor(data.color, data.valueFormat ?? "hex");
+
+// WCAG relative luminance of one sRGB channel
+const linearize = (channel: number) =>
+  channel <= 0.03928
+    ? channel / 12.92
+    : Math.pow((channel + 0.055) / 1.055, 2.4);
+
+/**
+ * Dark or light text color, whichever contrasts more with `color`.
+ * Translucent colors are judged as drawn over a white board.
+ */
+export const getContrastingTextColor = (color: string): string => {
+  const [r, g, b, a] = Skia.Color(color);
+  const [lr, lg, lb] = [r, g, b].map((channel) =>
+    linearize(channel * a + 1 - a),
+  );
+  const luminance = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  // Contrast against white (1.05 / (L + 0.05)) vs. black ((L + 0.05) / 0.05)
+  return 1.05 / (luminance + 0.05) > (luminance + 0.05) / 0.05
+    ? "#FFFFFF"
+    : "#1A1A1A";
+};
@@ -0,0 +1,81 @@
+import { SelectionOverlayAction } from "./SelectionOverlay";
+import { BoardActions, BoardCommands } from "./types";
+
+interface Options {
+  /** Called after a delete, e.g. to clear the selection. */
+  onDeleted?: () => void;
+  /** Whether the item is locked — the lock button then reads "Unlock". */
+  locked?: boolean;
+  /** Value of a color swatch, offered through a copy button. */
+  colorValue?: string;
+}
+
+/**
+ * The built-in selection overlay buttons for an item, one per `actions`
+ * callback the consumer provided: delete, duplicate, bring forward,
+ * send backward, lock / unlock (`onCommit`), and copy for color swatches
+ * (`onCopyColor`).
+ *
+ * Delete, duplicate, and z-order go through `commands` so they are
+ * undoable. Passed to `selectionActions` as its third argument so custom
+ * lists can extend or reorder them.
+ */
+export const buildDefaultSelectionActions = (
+  itemId: string,
+  actions: BoardActions | undefined,
+  commands: BoardCommands,
+  { onDeleted, locked = false, colorValue }: Options = {},
+): SelectionOverlayAction[] => {
+  if (!actions) return [];
+  const result: SelectionOverlayAction[] = [];
+
+  if (actions.onZIndexChange) {
+    result.push(
+      {
+        key: "bring-forward",
+        label: "↑",
+        onPress: () => commands.changeZIndex([itemId], "up"),
+      },
+      {
+        key: "send-backward",
+        label: "↓",
+        onPress: () => commands.changeZIndex([itemId], "down"),
+      },
+    );
+  }
+  if (actions.onDuplicate) {
+    result.push({
+      key: "duplicate",
+      label: "Dup",
+      onPress: () => commands.duplicateItems([itemId]),
+    });
+  }
+  if (actions.onCopyColor && colorValue !== undefined) {
+    const onCopyColor = actions.onCopyColor;
+    result.push({
+      key: "copy-color",
+      label: "Copy",
+      onPress: () => onCopyColor(itemId, colorValue),
+    });
+  }
+  if (actions.onCommit) {
+    const onCommit = actions.onCommit;
+    result.push({
+      key: "lock",
+      label: locked ? "Unlock" : "Lock",
+      onPress: () => onCommit(itemId),
+    });
+  }
+  if (actions.onDelete) {
+    result.push({
+      key: "delete",
+      label: "Del",
+      color: "rgba(244, 67, 54, 0.9)",
+      onPress: () => {
+        commands.deleteItems([itemId]);
+        onDeleted?.();
+      },
+    });
+  }
+  return result;
+};
@@ -0,0 +1,56 @@
+import {
+  FontWeight,
+  Skia,
+  SkParagraphStyle,
+  SkTypefaceFontProvider,
+} from "@shopify/react-native-skia";
+import { TextFontWeight } from "./types";
+
+/**
+ * Fallback families tried after an item's own family, for glyphs it
+ * lacks: emoji first, then CJK faces shipped by iOS / macOS and Android.
+ * Families missing on a device are skipped.
+ */
+export const DEFAULT_FONT_FALLBACKS = [
+  "Apple Color Emoji",
+  "Noto Color Emoji",
+  "PingFang SC",
+  "Hiragino Sans",
+  "Noto Sans CJK SC",
+  "Noto Sans CJK JP",
+];
+
+/**
+ * The `fontFamilies` chain for a paragraph: the item's family (or the
+ * board default), then the fallbacks. Undefined without a family, so the
+ * system face stays the primary font — leading with the fallbacks would
+ * pull ordinary letters and digits from the emoji / CJK faces.
+ */
+export const resolveFontFamilies = (
+  family: string | undefined,
+  fallbacks: string[] = [],
+): string[] | undefined => (family ? [family, ...fallbacks] : undefined);
+
+/** Maps an item's `fontWeight` to a Skia weight. */
+export const toSkiaFontWeight = (
+  weight: TextFontWeight | undefined,
+): FontWeight => {
+  if (weight === "bold") return FontWeight.Bold;
+  if (weight === undefined || weight === "normal") return FontWeight.Normal;
+  return weight as FontWeight;
+};
+
+/**
+ * `Skia.ParagraphBuilder.Make` with an optional font manager.
+ *
+ * The native factory is strict about `undefined`: an undefined font
+ * manager throws, and so does any style key explicitly set to undefined.
+ * Leave unset style keys out rather than assigning undefined.
+ */
+export const makeParagraphBuilder = (
+  style: SkParagraphStyle,
+  fontMgr?: SkTypefaceFontProvider,
+) =>
+  fontMgr
+    ? Skia.ParagraphBuilder.Make(style, fontMgr)
+    : Skia.ParagraphBuilder.Make(style);
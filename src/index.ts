@@ -7,7 +7,7 @@ export { DefaultItemRenderer } from "./DefaultItemRenderer";
 export type { DefaultItemRendererProps } from "./DefaultItemRenderer";
 
 export { SkiaGrid } from "./SkiaGrid";
-export type { SkiaGridProps } from "./SkiaGrid";
+export type { GridOptions, SkiaGridProps } from "./SkiaGrid";
 
 export { SkiaImageItem } from "./SkiaImageItem";
 export type { SkiaImageItemProps } from "./SkiaImageItem";
@@ -26,6 +26,21 @@ export type {
   SelectionOverlayProps,
   SelectionOverlayAction,
 } from "./SelectionOverlay";
+export { buildDefaultSelectionActions } from "./defaultSelectionActions";
+
+export { LockBadge } from "./LockBadge";
+export type { LockBadgeProps } from "./LockBadge";
+
+export { TextEditOverlay } from "./TextEditOverlay";
+export type { TextEditOverlayProps } from "./TextEditOverlay";
+
+export { SelectionHandles } from "./SelectionHandles";
+export type { SelectionHandlesProps } from "./SelectionHandles";
+
+export { SelectionMarquee } from "./SelectionMarquee";
+export type { SelectionMarqueeProps } from "./SelectionMarquee";
+export { SmartGuides } from "./SmartGuides";
+export type { SmartGuidesProps } from "./SmartGuides";
 
 export { MultiSelectToolbar } from "./MultiSelectToolbar";
 export type { MultiSelectToolbarProps } from "./MultiSelectToolbar";
@@ -43,26 +58,96 @@ export type { UseCanvasGestureControllerParams } from "./useCanvasGestureControl
 export { useMultiSelect } from "./useMultiSelect";
 export type { MultiSelectState } from "./useMultiSelect";
 export { useSkiaImageLoader } from "./useSkiaImageLoader";
+export { useCamera } from "./useCamera";
+export { useBoardHistory } from "./useBoardHistory";
+export { useViewportCulling } from "./useViewportCulling";
+export { useArrangeCommands } from "./useArrangeCommands";
+export { useAutoLayout } from "./useAutoLayout";
+export { useRotationTransform } from "./useRotationTransform";
+export { useItemSize } from "./useItemSize";
+export { useBoardFonts } from "./useBoardFonts";
+
+// ─── Layout ──────────────────────────────────────────────────────────────────
+export { layoutGrid, layoutMasonry, tidyLayout } from "./layout";
+
+// ─── Rich text ───────────────────────────────────────────────────────────────
+export { parseMarkdown, applyBullets, countLinesThatFit } from "./richText";
+
+// ─── Fonts ───────────────────────────────────────────────────────────────────
+export { DEFAULT_FONT_FALLBACKS, resolveFontFamilies } from "./fonts";
+
+// ─── Colors ──────────────────────────────────────────────────────────────────
+export {
+  formatColor,
+  getColorValue,
+  getContrastingTextColor,
+} from "./colors";
+
+// ─── Spatial index ───────────────────────────────────────────────────────────
+export { createSpatialIndex } from "./spatialIndex";
+export type { SpatialIndex } from "./spatialIndex";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 export type {
   GestureMode,
+  EmptyDragMode,
   BoardItemData,
   ImageBoardItem,
   UrlBoardItem,
   TextBoardItem,
   ColorBoardItem,
+  ColorValueFormat,
+  TextSpan,
+  TextAlignment,
+  TextOverflow,
+  TextFontWeight,
+  BoardFonts,
   RegistryItem,
   ItemRegistry,
   ItemRenderState,
   Point,
+  Bounds,
+  Camera,
+  CameraAnimationOptions,
+  CameraChangeEvent,
+  ResizeHandle,
+  ResizeConfig,
+  RotateConfig,
+  SnapConfig,
+  SmartGuidesConfig,
+  CullingConfig,
+  AlignMode,
+  DistributeAxis,
+  MatchSizeDimension,
+  ArrangeCommands,
+  LayoutKind,
+  LayoutOptions,
+  AlignmentGuides,
   TransformSnapshot,
   ImageLoader,
   ItemTransform,
   OnTransformEnd,
   BoardActions,
+  BoardCommands,
+  HistoryState,
   SelectionAction,
 } from "./types";
 
 // ─── Utilities ───────────────────────────────────────────────────────────────
-export { mapScreenToCanvas } from "./utils";
+export {
+  mapScreenToCanvas,
+  computeResize,
+  rotatePoint,
+  normalizeRotation,
+  snapToStep,
+  getRotatedCorners,
+  getRotatedBounds,
+  getItemFootprint,
+  isPointInItem,
+  isPointInPolygon,
+  getUnionBounds,
+  computeGuideSnap,
+  getAlignmentGuides,
+  alignBounds,
+  distributeBounds,
+} from "./utils";
@@ -0,0 +1,189 @@
+import { Bounds, Point } from "./types";
+
+// Pure layout math for auto-arrange. Every function takes item footprints
+// (rotated bounds) and returns target footprints in the same order; the
+// caller maps them back onto item transforms. `obstacles` are fixed
+// footprints (e.g. locked items) that results keep `gap` away from.
+
+interface GridOptions {
+  origin: Point;
+  gap: number;
+  /** Default: roughly square, `ceil(sqrt(n))`. */
+  columns?: number;
+  obstacles?: Bounds[];
+}
+
+interface MasonryOptions extends GridOptions {
+  /** Default: the average footprint width. */
+  columnWidth?: number;
+}
+
+const defaultColumns = (count: number, columns?: number) =>
+  Math.max(1, Math.round(columns ?? Math.ceil(Math.sqrt(count))));
+
+const overlaps = (a: Bounds, b: Bounds, gap: number) =>
+  a.x < b.x + b.width + gap &&
+  b.x < a.x + a.width + gap &&
+  a.y < b.y + b.height + gap &&
+  b.y < a.y + a.height + gap;
+
+/** Lowest y at or below `r.y` where `r` clears every obstacle. */
+const dropBelowObstacles = (
+  r: Bounds,
+  obstacles: Bounds[],
+  gap: number,
+): number => {
+  let y = r.y;
+  // y only grows past each obstacle hit, so this ends
+  for (;;) {
+    const hit = obstacles.find((o) => overlaps({ ...r, y }, o, gap));
+    if (!hit) return y;
+    y = hit.y + hit.height + gap;
+  }
+};
+
+/**
+ * Rows and columns in input order. Columns are as wide as their widest
+ * item and rows as tall as their tallest; items sit at their cell's
+ * top-left. A row that would overlap an obstacle moves down below it,
+ * taking the rows after it along.
+ */
+export const layoutGrid = (rects: Bounds[], options: GridOptions): Bounds[] => {
+  const { origin, gap, obstacles = [] } = options;
+  const columns = defaultColumns(rects.length, options.columns);
+
+  const colWidths: number[] = [];
+  const rowHeights: number[] = [];
+  rects.forEach((r, i) => {
+    const col = i % columns;
+    const row = Math.floor(i / columns);
+    colWidths[col] = Math.max(colWidths[col] ?? 0, r.width);
+    rowHeights[row] = Math.max(rowHeights[row] ?? 0, r.height);
+  });
+
+  const colX: number[] = [];
+  let x = origin.x;
+  for (const w of colWidths) {
+    colX.push(x);
+    x += w + gap;
+  }
+  const rowY: number[] = [];
+  let y = origin.y;
+  rowHeights.forEach((h, row) => {
+    const cells = rects
+      .slice(row * columns, (row + 1) * columns)
+      .map((r, col) => ({ ...r, x: colX[col] }));
+    // Settle the row where none of its cells hit an obstacle
+    for (let moved = true; moved; ) {
+      moved = false;
+      for (const cell of cells) {
+        const clear = dropBelowObstacles({ ...cell, y }, obstacles, gap);
+        if (clear !== y) {
+          y = clear;
+          moved = true;
+        }
+      }
+    }
+    rowY.push(y);
+    y += h + gap;
+  });
+
+  return rects.map((r, i) => ({
+    ...r,
+    x: colX[i % columns],
+    y: rowY[Math.floor(i / columns)],
+  }));
+};
+
+/**
+ * Fixed-width columns, each item scaled to the column width (keeping its
+ * aspect ratio) and dropped into the currently shortest column, below
+ * any obstacle in its way.
+ */
+export const layoutMasonry = (
+  rects: Bounds[],
+  options: MasonryOptions,
+): Bounds[] => {
+  const { origin, gap, obstacles = [] } = options;
+  if (rects.length === 0) return [];
+  const columns = defaultColumns(rects.length, options.columns);
+  const columnWidth =
+    options.columnWidth ??
+    rects.reduce((sum, r) => sum + r.width, 0) / rects.length;
+
+  const heights = new Array<number>(columns).fill(0);
+  return rects.map((r) => {
+    let col = 0;
+    for (let c = 1; c < columns; c++) {
+      if (heights[c] < heights[col]) col = c;
+    }
+    const height = r.width > 0 ? (r.height * columnWidth) / r.width : r.height;
+    const placed = {
+      x: origin.x + col * (columnWidth + gap),
+      y: origin.y + heights[col],
+      width: columnWidth,
+      height,
+    };
+    placed.y = dropBelowObstacles(placed, obstacles, gap);
+    heights[col] = placed.y - origin.y + height + gap;
+    return placed;
+  });
+};
+
+/**
+ * Removes overlaps with as little movement as possible. Items are placed
+ * largest first; an item that collides with one already placed moves to
+ * the nearest free spot beside one of them (left, right, above, below),
+ * keeping at least `gap` between items. Items that do not overlap stay
+ * where they are. Obstacles never move but count as placed.
+ */
+export const tidyLayout = (
+  rects: Bounds[],
+  options: { gap: number; obstacles?: Bounds[] },
+): Bounds[] => {
+  const { gap, obstacles = [] } = options;
+  const result = rects.map((r) => ({ ...r }));
+  const order = rects
+    .map((_, i) => i)
+    .sort(
+      (a, b) =>
+        rects[b].width * rects[b].height - rects[a].width * rects[a].height,
+    );
+
+  const placed: Bounds[] = [...obstacles];
+  const isFree = (r: Bounds) => !placed.some((p) => overlaps(r, p, gap));
+
+  for (const i of order) {
+    const r = rects[i];
+    if (isFree(r)) {
+      placed.push(r);
+      continue;
+    }
+
+    let best: Bounds | null = null;
+    let bestDistance = Infinity;
+    const consider = (x: number, y: number) => {
+      const candidate = { ...r, x, y };
+      const d = Math.hypot(x - r.x, y - r.y);
+      if (d < bestDistance && isFree(candidate)) {
+        best = candidate;
+        bestDistance = d;
+      }
+    };
+    for (const p of placed) {
+      consider(p.x - r.width - gap, r.y);
+      consider(p.x + p.width + gap, r.y);
+      consider(r.x, p.y - r.height - gap);
+      consider(r.x, p.y + p.height + gap);
+    }
+
+    // Boxed in on every side: drop it below everything
+    if (!best) {
+      const bottom = Math.max(...placed.map((p) => p.y + p.height));
+      best = { ...r, y: bottom + gap };
+    }
+    result[i] = best;
+    placed.push(best);
+  }
+  return result;
+};
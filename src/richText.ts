@@ -0,0 +1,185 @@
+import { SkParagraph } from "@shopify/react-native-skia";
+import { TextSpan } from "./types";
+
+const BULLET = "•  ";
+const LIST_ITEM = /^(\s*)[-*+]\s+/;
+
+interface SpanStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+}
+
+type StyleFlag = keyof SpanStyle;
+
+// Longest markers first so `**` wins over `*`
+const MARKERS: [string, StyleFlag][] = [
+  ["**", "bold"],
+  ["__", "underline"],
+  ["~~", "strikethrough"],
+  ["*", "italic"],
+  ["_", "italic"],
+];
+
+const LINK = /^\[([^\]]+)\]\(([^)\s]+)\)/;
+
+const sameStyle = (a: TextSpan, b: TextSpan) =>
+  !!a.bold === !!b.bold &&
+  !!a.italic === !!b.italic &&
+  !!a.underline === !!b.underline &&
+  !!a.strikethrough === !!b.strikethrough &&
+  a.color === b.color &&
+  a.link === b.link;
+
+const pushSpan = (spans: TextSpan[], span: TextSpan) => {
+  if (span.text.length === 0) return;
+  const last = spans[spans.length - 1];
+  if (last && sameStyle(last, span)) {
+    last.text += span.text;
+  } else {
+    spans.push(span);
+  }
+};
+
+const styled = (text: string, style: SpanStyle): TextSpan => {
+  const span: TextSpan = { text };
+  if (style.bold) span.bold = true;
+  if (style.italic) span.italic = true;
+  if (style.underline) span.underline = true;
+  if (style.strikethrough) span.strikethrough = true;
+  return span;
+};
+
+const isSpace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+
+/**
+ * Whether a marker at `i` can close emphasis: like CommonMark's
+ * right-flanking rule, it must not follow whitespace.
+ */
+const canClose = (line: string, i: number) => !isSpace(line[i - 1]);
+
+/** Whether `marker` closes somewhere at or after `from`. */
+const hasCloser = (line: string, marker: string, from: number) => {
+  for (let j = line.indexOf(marker, from); j !== -1; ) {
+    if (canClose(line, j)) return true;
+    j = line.indexOf(marker, j + 1);
+  }
+  return false;
+};
+
+const parseLine = (line: string, spans: TextSpan[]) => {
+  const style: SpanStyle = {
+    bold: false,
+    italic: false,
+    underline: false,
+    strikethrough: false,
+  };
+  let buffer = "";
+  const flush = () => {
+    pushSpan(spans, styled(buffer, style));
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const ch = line[i];
+
+    // Backslash escapes the next character
+    if (ch === "\\" && i + 1 < line.length) {
+      buffer += line[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "[") {
+      const link = LINK.exec(line.slice(i));
+      if (link) {
+        flush();
+        pushSpan(spans, { ...styled(link[1], style), link: link[2] });
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    const marker = MARKERS.find(([m]) => line.startsWith(m, i));
+    if (marker) {
+      const [m, flag] = marker;
+      const prev = i > 0 ? line[i - 1] : " ";
+      // Open only before non-whitespace (left-flanking) when a closer
+      // follows on the line, and don't treat snake_case underscores as
+      // emphasis; close only after non-whitespace
+      const opens =
+        !style[flag] &&
+        !isSpace(line[i + m.length]) &&
+        hasCloser(line, m, i + m.length + 1) &&
+        !(m[0] === "_" && /\w/.test(prev));
+      const closes = style[flag] && canClose(line, i);
+      if (opens || closes) {
+        flush();
+        style[flag] = !style[flag];
+        i += m.length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+  flush();
+};
+
+/**
+ * Parses a lightweight markdown subset into text spans:
+ * `**bold**`, `*italic*` / `_italic_`, `__underline__`,
+ * `~~strikethrough~~`, `[label](url)` links, and `- ` / `* ` bullet lines.
+ * Backslash escapes a marker. Emphasis never spans lines.
+ */
+export const parseMarkdown = (text: string): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  text.split("\n").forEach((line, index) => {
+    if (index > 0) pushSpan(spans, { text: "\n" });
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      pushSpan(spans, { text: item[1] + BULLET });
+      parseLine(line.slice(item[0].length), spans);
+    } else {
+      parseLine(line, spans);
+    }
+  });
+  return spans;
+};
+
+/**
+ * Replaces `- ` / `* ` / `+ ` at the start of each line with a bullet,
+ * across span boundaries.
+ */
+export const applyBullets = (spans: TextSpan[]): TextSpan[] => {
+  let atLineStart = true;
+  return spans.map((span) => {
+    const text = span.text.replace(
+      /(^|\n)([ \t]*)[-*+][ \t]+/g,
+      (match, newline: string, indent: string, offset: number) =>
+        offset === 0 && newline === "" && !atLineStart
+          ? match
+          : newline + indent + BULLET,
+    );
+    if (span.text.length > 0) atLineStart = span.text.endsWith("\n");
+    return text === span.text ? span : { ...span, text };
+  });
+};
+
+/**
+ * How many lines of a laid-out paragraph fit within `maxHeight`, or null
+ * when all of them do. Used to derive `maxLines` for ellipsizing.
+ */
+export const countLinesThatFit = (
+  paragraph: SkParagraph,
+  maxHeight: number,
+): number | null => {
+  const lines = paragraph.getLineMetrics();
+  const fitting = lines.filter(
+    (line) => line.baseline + line.descent <= maxHeight,
+  ).length;
+  return fitting < lines.length ? fitting : null;
+};
@@ -0,0 +1,231 @@
+import { Bounds, Point } from "./types";
+
+/**
+ * Spatial hash over axis-aligned bounds, keyed by item id.
+ *
+ * Queries return candidate ids whose stored bounds overlap the query, in
+ * insertion order. Callers still run their exact (rotation-aware) test on
+ * the candidates — the index only narrows the search.
+ */
+export interface SpatialIndex {
+  /** Insert an id, or move it to new bounds. */
+  update: (id: string, bounds: Bounds) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+  has: (id: string) => boolean;
+  size: () => number;
+  /** Ids whose bounds overlap `rect` (touching edges count). */
+  queryRect: (rect: Bounds) => string[];
+  /** Ids whose bounds contain `point`. */
+  queryPoint: (point: Point) => string[];
+  /**
+   * Up to `count` ids ordered by the distance from `point` to their bounds
+   * (0 when inside), skipping anything farther than `maxDistance`.
+   */
+  nearest: (point: Point, count?: number, maxDistance?: number) => string[];
+}
+
+interface Entry {
+  bounds: Bounds;
+  /** Insertion sequence — keeps query results in a stable order. */
+  seq: number;
+  cells: string[];
+}
+
+const distanceToBounds = (point: Point, b: Bounds) => {
+  const dx = Math.max(b.x - point.x, 0, point.x - (b.x + b.width));
+  const dy = Math.max(b.y - point.y, 0, point.y - (b.y + b.height));
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+const overlaps = (a: Bounds, b: Bounds) =>
+  a.x <= b.x + b.width &&
+  b.x <= a.x + a.width &&
+  a.y <= b.y + b.height &&
+  b.y <= a.y + a.height;
+
+/**
+ * Creates a uniform-grid spatial hash. Each id is filed under every
+ * `cellSize` × `cellSize` cell its bounds touch, so updates and small
+ * queries only visit a handful of cells regardless of board size.
+ */
+export const createSpatialIndex = (cellSize = 256): SpatialIndex => {
+  const entries = new Map<string, Entry>();
+  const cells = new Map<string, Set<string>>();
+  let nextSeq = 0;
+
+  // Occupied cell range, for bounding the nearest-neighbour search
+  let minCx = Infinity;
+  let minCy = Infinity;
+  let maxCx = -Infinity;
+  let maxCy = -Infinity;
+
+  const cellRange = (b: Bounds) => ({
+    x0: Math.floor(b.x / cellSize),
+    y0: Math.floor(b.y / cellSize),
+    x1: Math.floor((b.x + b.width) / cellSize),
+    y1: Math.floor((b.y + b.height) / cellSize),
+  });
+
+  const removeFromCells = (id: string, entry: Entry) => {
+    for (const key of entry.cells) {
+      const cell = cells.get(key);
+      if (!cell) continue;
+      cell.delete(id);
+      if (cell.size === 0) cells.delete(key);
+    }
+  };
+
+  /** Collect ids filed in the given cell range, deduplicated. */
+  const collect = (
+    range: { x0: number; y0: number; x1: number; y1: number },
+    into: Set<string>,
+  ) => {
+    for (let cx = range.x0; cx <= range.x1; cx++) {
+      for (let cy = range.y0; cy <= range.y1; cy++) {
+        const cell = cells.get(`${cx}:${cy}`);
+        if (cell) cell.forEach((id) => into.add(id));
+      }
+    }
+  };
+
+  const inOrder = (ids: Iterable<string>) =>
+    Array.from(ids).sort(
+      (a, b) => (entries.get(a)?.seq ?? 0) - (entries.get(b)?.seq ?? 0),
+    );
+
+  const update = (id: string, bounds: Bounds) => {
+    const existing = entries.get(id);
+    if (existing) removeFromCells(id, existing);
+
+    const range = cellRange(bounds);
+    const keys: string[] = [];
+    for (let cx = range.x0; cx <= range.x1; cx++) {
+      for (let cy = range.y0; cy <= range.y1; cy++) {
+        const key = `${cx}:${cy}`;
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          cells.set(key, cell);
+        }
+        cell.add(id);
+        keys.push(key);
+      }
+    }
+    minCx = Math.min(minCx, range.x0);
+    minCy = Math.min(minCy, range.y0);
+    maxCx = Math.max(maxCx, range.x1);
+    maxCy = Math.max(maxCy, range.y1);
+
+    entries.set(id, {
+      bounds: { ...bounds },
+      seq: existing ? existing.seq : nextSeq++,
+      cells: keys,
+    });
+  };
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    removeFromCells(id, entry);
+    entries.delete(id);
+  };
+
+  const clear = () => {
+    entries.clear();
+    cells.clear();
+    minCx = minCy = Infinity;
+    maxCx = maxCy = -Infinity;
+  };
+
+  const queryRect = (rect: Bounds) => {
+    const range = cellRange(rect);
+    const cellCount = (range.x1 - range.x0 + 1) * (range.y1 - range.y0 + 1);
+
+    // A huge rect over a sparse board: scanning the entries is cheaper
+    let candidates: Iterable<string>;
+    if (cellCount > entries.size) {
+      candidates = entries.keys();
+    } else {
+      const found = new Set<string>();
+      collect(range, found);
+      candidates = found;
+    }
+
+    const hits: string[] = [];
+    for (const id of candidates) {
+      const entry = entries.get(id);
+      if (entry && overlaps(entry.bounds, rect)) hits.push(id);
+    }
+    return inOrder(hits);
+  };
+
+  const queryPoint = (point: Point) =>
+    queryRect({ x: point.x, y: point.y, width: 0, height: 0 });
+
+  const nearest = (point: Point, count = 1, maxDistance = Infinity) => {
+    if (entries.size === 0 || count <= 0) return [];
+
+    const px = Math.floor(point.x / cellSize);
+    const py = Math.floor(point.y / cellSize);
+    // Rings beyond this cover no occupied cell
+    const maxRing = Math.max(
+      px - minCx,
+      maxCx - px,
+      py - minCy,
+      maxCy - py,
+      0,
+    );
+
+    const seen = new Set<string>();
+    let best: { id: string; d: number }[] = [];
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Anything not seen yet is at least this far away
+      const ringDistance = (ring - 1) * cellSize;
+      if (ringDistance > maxDistance) break;
+      if (best.length >= count && ringDistance > best[best.length - 1].d) {
+        break;
+      }
+
+      // Only the ring's outline — the inside was visited already
+      const found = new Set<string>();
+      if (ring === 0) {
+        collect({ x0: px, y0: py, x1: px, y1: py }, found);
+      } else {
+        const x0 = px - ring;
+        const x1 = px + ring;
+        const y0 = py - ring;
+        const y1 = py + ring;
+        collect({ x0, y0, x1, y1: y0 }, found);
+        collect({ x0, y0: y1, x1, y1 }, found);
+        collect({ x0, y0: y0 + 1, x1: x0, y1: y1 - 1 }, found);
+        collect({ x0: x1, y0: y0 + 1, x1, y1: y1 - 1 }, found);
+      }
+
+      found.forEach((id) => {
+        if (seen.has(id)) return;
+        seen.add(id);
+        const entry = entries.get(id);
+        if (!entry) return;
+        const d = distanceToBounds(point, entry.bounds);
+        if (d <= maxDistance) best.push({ id, d });
+      });
+      best.sort((a, b) => a.d - b.d);
+      best = best.slice(0, count);
+    }
+
+    return best.map((b) => b.id);
+  };
+
+  return {
+    update,
+    remove,
+    clear,
+    has: (id) => entries.has(id),
+    size: () => entries.size,
+    queryRect,
+    queryPoint,
+    nearest,
+  };
+};
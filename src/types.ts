@@ -1,5 +1,5 @@
 import { SharedValue } from "react-native-reanimated";
-import { SkImage } from "@shopify/react-native-skia";
+import { SkImage, SkTypefaceFontProvider } from "@shopify/react-native-skia";
 
 // ─── Gesture modes ───────────────────────────────────────────────────────────
 
@@ -8,7 +8,18 @@ export type GestureMode =
   | "panning-canvas"
   | "zooming-canvas"
   | "dragging-item"
-  | "resizing-item";
+  | "resizing-item"
+  | "rotating-item";
+
+/**
+ * What a one-finger drag on empty canvas does.
+ * - `"pan"`: moves the camera (default)
+ * - `"marquee"`: draws a selection rectangle
+ * - `"lasso"`: draws a freeform selection outline
+ *
+ * In the selection modes, a two-finger drag pans the canvas instead.
+ */
+export type EmptyDragMode = "pan" | "marquee" | "lasso";
 
 // ─── Board item types ─────────────────────────────────────────────────────────
 
@@ -20,8 +31,14 @@ interface BoardItemBase {
   y?: number | null;
   width?: number | null;
   height?: number | null;
+  /** Rotation in degrees, clockwise around the item's center. */
   rotation?: number | null;
   zIndex?: number | null;
+  /**
+   * Locked (committed) items cannot be dragged, resized, or rotated;
+   * a drag on them pans the canvas instead.
+   */
+  locked?: boolean | null;
 }
 
 /** An image item — visual content loaded asynchronously via `loadImage`. */
@@ -29,6 +46,16 @@ export interface ImageBoardItem extends BoardItemBase {
   type: "image";
 }
 
+/**
+ * What a text or URL card does when its text is taller than the item.
+ * - `"visible"`: text draws past the card (default)
+ * - `"autoHeight"`: the item grows / shrinks to fit, reported through
+ *   `onTransformEnd`
+ * - `"clip"`: text is cut off at the card edge
+ * - `"ellipsis"`: as many lines as fit, the last ending in "…"
+ */
+export type TextOverflow = "visible" | "autoHeight" | "clip" | "ellipsis";
+
 /** A URL/link card displayed as a styled card on the canvas. */
 export interface UrlBoardItem extends BoardItemBase {
   type: "url";
@@ -36,22 +63,87 @@ export interface UrlBoardItem extends BoardItemBase {
   title?: string;
   description?: string;
   imageUrl?: string;
+  /** Default "visible". */
+  overflow?: TextOverflow;
 }
 
+/**
+ * A run of styled text inside a text note. Unset fields inherit the
+ * note's defaults.
+ */
+export interface TextSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  color?: string;
+  /** Link target. Links are drawn underlined in a link color. */
+  link?: string;
+}
+
+/** Font weight of a text note: a keyword or 100 – 900. */
+export type TextFontWeight = "normal" | "bold" | number;
+
+/** Paragraph alignment of a text note. */
+export type TextAlignment = "left" | "center" | "right" | "justify";
+
 /** A text note rendered directly on the canvas. */
 export interface TextBoardItem extends BoardItemBase {
   type: "text";
+  /**
+   * Plain text, or markdown when `markdown` is set. This is what the
+   * inline editor edits.
+   */
   text: string;
+  /**
+   * Styled runs to render instead of `text`. Lines starting with `- `
+   * become bullets.
+   */
+  spans?: TextSpan[];
+  /**
+   * Parse `text` as a markdown subset: `**bold**`, `*italic*`,
+   * `__underline__`, `~~strikethrough~~`, `[label](url)`, and `- ` bullets.
+   */
+  markdown?: boolean;
   fontSize?: number;
+  /**
+   * Font family, registered through `useBoardFonts` (or a system family).
+   * Defaults to the board's default family.
+   */
+  fontFamily?: string;
+  /** Default "normal". Bold spans always use bold. */
+  fontWeight?: TextFontWeight;
   fontColor?: string;
   backgroundColor?: string;
+  /** Default "left". */
+  textAlign?: TextAlignment;
+  /** Line height as a multiple of the font size. */
+  lineHeight?: number;
+  /** Link color. Default "#1E88E5". */
+  linkColor?: string;
+  /** Default "visible". */
+  overflow?: TextOverflow;
 }
 
-/** A solid color swatch. */
+/** How a swatch writes its color value. */
+export type ColorValueFormat = "hex" | "rgb";
+
+/**
+ * A solid color swatch. The label and value are drawn in a caption strip
+ * along the bottom, in whichever of dark / light text contrasts more.
+ */
 export interface ColorBoardItem extends BoardItemBase {
   type: "color";
+  /** Any CSS color. */
   color: string;
   label?: string;
+  /** Draw `label` in the caption. Default true. */
+  showLabel?: boolean;
+  /** Draw the color value in the caption. Default false. */
+  showValue?: boolean;
+  /** Format of the shown and copied value. Default "hex". */
+  valueFormat?: ColorValueFormat;
 }
 
 /**
@@ -79,8 +171,11 @@ export interface RegistryItem {
   y: SharedValue<number>;
   width: SharedValue<number>;
   height: SharedValue<number>;
+  /** Degrees, clockwise around the item's center */
   rotation: SharedValue<number>;
   zIndex: number;
+  /** Locked items ignore drag / resize / rotate gestures */
+  locked: boolean;
 
   // Skia image (loaded async, only for type: "image")
   image: SkImage | null;
@@ -101,6 +196,16 @@ export interface Point {
   y: number;
 }
 
+/**
+ * Axis-aligned rectangle in world coordinates.
+ */
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 /**
  * Transform snapshot for persisting positions back to the consumer.
  */
@@ -109,9 +214,208 @@ export interface TransformSnapshot {
   y: number;
   width: number;
   height: number;
+  /** Degrees, clockwise around the item's center. */
   rotation: number;
 }
 
+// ─── Camera ──────────────────────────────────────────────────────────────────
+
+/**
+ * Camera position: the world-space point at the center of the viewport,
+ * and the zoom level. Independent of screen size, so it can be restored
+ * on a different device.
+ */
+export interface Camera {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/**
+ * Emitted by `onCameraChange`: the camera plus the world-space rect
+ * currently visible in the viewport.
+ */
+export interface CameraChangeEvent extends Camera {
+  visibleWorldRect: Bounds;
+}
+
+/**
+ * Animation options for programmatic camera moves.
+ * Same semantics as the `animated` / `animationDuration` props of `ZoomControls`.
+ */
+export interface CameraAnimationOptions {
+  /** Animate the transition. Default true. */
+  animated?: boolean;
+  /** Animation duration in ms. Default 200. */
+  duration?: number;
+}
+
+// ─── Resize ──────────────────────────────────────────────────────────────────
+
+/**
+ * The eight handles drawn around a selected item.
+ * Corners resize both axes; edges resize one.
+ */
+export type ResizeHandle =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "right"
+  | "bottom-right"
+  | "bottom"
+  | "bottom-left"
+  | "left";
+
+/**
+ * Configuration for interactive resizing of the selected item.
+ */
+export interface ResizeConfig {
+  /** Keep the item's width/height ratio while resizing. Default false. */
+  lockAspectRatio?: boolean;
+  /** Minimum item width in canvas units. Default 20. */
+  minWidth?: number;
+  /** Minimum item height in canvas units. Default 20. */
+  minHeight?: number;
+  /** Handle size in screen pixels (constant at every zoom level). Default 12. */
+  handleSize?: number;
+  /** Extra touch slop around each handle in screen pixels. Default 10. */
+  hitSlop?: number;
+  /** Handle fill color. Default "#FFFFFF". */
+  handleColor?: string;
+  /** Handle border color. Defaults to the selection color. */
+  handleBorderColor?: string;
+}
+
+// ─── Rotate ──────────────────────────────────────────────────────────────────
+
+/**
+ * Configuration for the rotate handle on the selected item.
+ */
+export interface RotateConfig {
+  /** Snap rotation to multiples of `snapAngle` while rotating. Default false. */
+  snap?: boolean;
+  /** Snap increment in degrees. Default 15. */
+  snapAngle?: number;
+  /** Distance of the rotate handle above the item, in screen pixels. Default 28. */
+  handleOffset?: number;
+}
+
+// ─── Snap ────────────────────────────────────────────────────────────────────
+
+/**
+ * Configuration for snapping item positions and sizes to a grid.
+ */
+export interface SnapConfig {
+  /** Snap increment in canvas units. Defaults to the grid's `gridSize`. */
+  step?: number;
+  /** Also snap width / height while resizing. Default true. */
+  size?: boolean;
+}
+
+// ─── Smart guides ────────────────────────────────────────────────────────────
+
+/**
+ * Configuration for alignment guides and object snapping while dragging.
+ */
+export interface SmartGuidesConfig {
+  /** Snap distance in screen pixels (constant at every zoom level). Default 6. */
+  threshold?: number;
+  /** Snap to equal spacing between the two nearest neighbours. Default true. */
+  spacing?: boolean;
+  /** Guide line color. Default "#FF00FF". */
+  color?: string;
+}
+
+/**
+ * Guides to draw for the current drag, as flattened canvas-space segments
+ * `[x0, y0, x1, y1, ...]`.
+ */
+export interface AlignmentGuides {
+  /** Edge / center alignment lines. */
+  lines: number[];
+  /** Equal-spacing gaps (drawn with end ticks). */
+  gaps: number[];
+}
+
+// ─── Culling ─────────────────────────────────────────────────────────────────
+
+/**
+ * Configuration for skipping items outside the viewport.
+ */
+export interface CullingConfig {
+  /** Extra area rendered around the viewport, in screen pixels. Default 200. */
+  margin?: number;
+  /**
+   * Drop the decoded images of culled image items to save memory. They are
+   * loaded again through `loadImage` when they come back into view.
+   * Default false.
+   */
+  releaseImages?: boolean;
+}
+
+// ─── Arrange ─────────────────────────────────────────────────────────────────
+
+/** Edge or center to line items up on. */
+export type AlignMode =
+  | "left"
+  | "center"
+  | "right"
+  | "top"
+  | "middle"
+  | "bottom";
+
+/** Axis to space items evenly along. */
+export type DistributeAxis = "horizontal" | "vertical";
+
+/** Which dimension(s) to copy from the largest item. */
+export type MatchSizeDimension = "width" | "height" | "both";
+
+/**
+ * Alignment, distribution, and size matching for a set of items.
+ * Omit `ids` to use the current multiselection. Results are persisted
+ * through `onTransformEnd` as one batch (and one undo step).
+ */
+export interface ArrangeCommands {
+  alignItems: (mode: AlignMode, ids?: string[]) => void;
+  /** Equal gaps between items; needs at least three. */
+  distributeItems: (axis: DistributeAxis, ids?: string[]) => void;
+  matchSize: (dimension: MatchSizeDimension, ids?: string[]) => void;
+}
+
+/** Auto-arrange strategy. */
+export type LayoutKind = "grid" | "masonry" | "tidy";
+
+export interface LayoutOptions {
+  /** Items to arrange. Default: every item on the board. */
+  ids?: string[];
+  /** Space between items in canvas units. Default 24. */
+  gap?: number;
+  /** Column count for grid / masonry. Default: roughly square. */
+  columns?: number;
+  /** Masonry column width. Default: the average item width. */
+  columnWidth?: number;
+  /** Top-left of the grid / masonry. Default: the items' current top-left. */
+  origin?: Point;
+  /** Animate into place. Default true. */
+  animated?: boolean;
+  /** Animation duration in ms. Default 300. */
+  duration?: number;
+}
+
+// ─── Fonts ───────────────────────────────────────────────────────────────────
+
+/**
+ * Fonts for the built-in text renderers, usually from `useBoardFonts`.
+ */
+export interface BoardFonts {
+  /** Provider holding the registered typefaces. Null while loading. */
+  fontMgr?: SkTypefaceFontProvider | null;
+  /** Family for items without a `fontFamily`. Default: the system face. */
+  defaultFamily?: string;
+  /** Families tried in order for glyphs the item's family lacks. */
+  fallbackFamilies?: string[];
+}
+
 // ─── Render state for custom renderItem ──────────────────────────────────────
 
 /**
@@ -150,16 +454,66 @@ export type OnTransformEnd = (events: ItemTransform[]) => void;
 export interface BoardActions {
   /** Called when the user taps delete on a selected item */
   onDelete?: (id: string) => void;
-  /** Called when the user taps duplicate on a selected item */
-  onDuplicate?: (id: string) => void;
+  /**
+   * Called when the user taps duplicate on a selected item.
+   * Return (or resolve with) the new item's id to make the duplicate undoable.
+   */
+  onDuplicate?: (
+    id: string,
+  ) => string | void | Promise<string | void | undefined>;
   /** Called when the user changes z-index */
   onZIndexChange?: (id: string, direction: "up" | "down") => void;
-  /** Called when the user commits / uncommits an item */
+  /**
+   * Called when the user commits / uncommits (locks / unlocks) an item.
+   * Toggle the item's `locked` flag in your data.
+   */
   onCommit?: (id: string) => void;
+  /**
+   * Called when inline editing of a text item is committed. Double-tapping
+   * a text item opens the editor only when this is provided. Notes with
+   * `spans` are not editable inline.
+   */
+  onTextChange?: (id: string, text: string) => void;
+  /**
+   * Called when the user taps copy on a selected color swatch, with its
+   * value in the item's `valueFormat`. Write it to the clipboard.
+   */
+  onCopyColor?: (id: string, value: string) => void;
   /** Called when the user groups selected items */
   onGroup?: (ids: string[]) => void;
   /** Called when the user ungroups. Receives the set of group IDs to remove. */
   onUngroup?: (groupIds: string[]) => void;
+  /**
+   * Called when undo / redo needs deleted items back. Receives the items as
+   * they were at deletion time (including their last transform).
+   * Deletes are only recorded in history when this is provided.
+   */
+  onRestore?: (items: BoardItemData[]) => void;
+}
+
+/**
+ * Board edits that go through the undo / redo history.
+ * Each call is recorded as a single step, however many ids it touches.
+ */
+export interface BoardCommands {
+  /** Delete items via `actions.onDelete`. */
+  deleteItems: (ids: string[]) => void;
+  /** Duplicate items via `actions.onDuplicate`. */
+  duplicateItems: (ids: string[]) => void;
+  /** Move items one step up / down via `actions.onZIndexChange`. */
+  changeZIndex: (ids: string[], direction: "up" | "down") => void;
+  /** Group items via `actions.onGroup`. */
+  groupItems: (ids: string[]) => void;
+  /** Remove groups via `actions.onUngroup`. */
+  ungroupItems: (groupIds: string[]) => void;
+}
+
+/**
+ * Undo / redo availability, reported through `onHistoryChange`.
+ */
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 // ─── Selection overlay action config ─────────────────────────────────────────
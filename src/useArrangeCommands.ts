@@ -0,0 +1,82 @@
+import { useMemo, useRef } from "react";
+import { ArrangeCommands, Point, RegistryItem } from "./types";
+import { alignBounds, distributeBounds, getItemFootprint } from "./utils";
+
+interface Params {
+  getItem: (id: string) => RegistryItem | undefined;
+  /** Ids used when a command is called without any. */
+  getSelectedIds: () => string[];
+  /** Batched persistence — one call per moved item, flushed as one batch. */
+  onItemTransformEnd: (id: string) => void;
+}
+
+/**
+ * Align / distribute / match-size commands for a set of items.
+ *
+ * Items are measured by their footprints (rotated bounds), moved through
+ * their shared values, then handed to `onItemTransformEnd` so the result
+ * is persisted — and undoable — exactly like a multi-item drag. Locked
+ * items are skipped.
+ */
+export const useArrangeCommands = ({
+  getItem,
+  getSelectedIds,
+  onItemTransformEnd,
+}: Params): ArrangeCommands => {
+  const paramsRef = useRef({ getItem, getSelectedIds, onItemTransformEnd });
+  paramsRef.current = { getItem, getSelectedIds, onItemTransformEnd };
+
+  return useMemo<ArrangeCommands>(() => {
+    const resolve = (ids?: string[]) => {
+      const { getItem: get, getSelectedIds: selected } = paramsRef.current;
+      const items: RegistryItem[] = [];
+      for (const id of ids ?? selected()) {
+        const item = get(id);
+        // Locked items are left where they are
+        if (item && !item.locked) items.push(item);
+      }
+      return items;
+    };
+
+    const moveBy = (items: RegistryItem[], offsets: Point[]) => {
+      items.forEach((item, i) => {
+        const { x, y } = offsets[i];
+        if (x === 0 && y === 0) return;
+        item.x.value += x;
+        item.y.value += y;
+        paramsRef.current.onItemTransformEnd(item.id);
+      });
+    };
+
+    return {
+      alignItems: (mode, ids) => {
+        const items = resolve(ids);
+        if (items.length < 2) return;
+        moveBy(items, alignBounds(items.map(getItemFootprint), mode));
+      },
+      distributeItems: (axis, ids) => {
+        const items = resolve(ids);
+        if (items.length < 3) return;
+        moveBy(items, distributeBounds(items.map(getItemFootprint), axis));
+      },
+      matchSize: (dimension, ids) => {
+        const items = resolve(ids);
+        if (items.length < 2) return;
+        const width = Math.max(...items.map((item) => item.width.value));
+        const height = Math.max(...items.map((item) => item.height.value));
+        for (const item of items) {
+          let changed = false;
+          if (dimension !== "height" && item.width.value !== width) {
+            item.width.value = width;
+            changed = true;
+          }
+          if (dimension !== "width" && item.height.value !== height) {
+            item.height.value = height;
+            changed = true;
+          }
+          if (changed) paramsRef.current.onItemTransformEnd(item.id);
+        }
+      },
+    };
+  }, []);
+};
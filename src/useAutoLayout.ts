@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef } from "react";
+import { withTiming } from "react-native-reanimated";
+import { LayoutKind, LayoutOptions, RegistryItem } from "./types";
+import { layoutGrid, layoutMasonry, tidyLayout } from "./layout";
+import { getItemFootprint, getUnionBounds } from "./utils";
+
+interface TargetTransform {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Params {
+  getItem: (id: string) => RegistryItem | undefined;
+  getSortedItems: () => RegistryItem[];
+  /** Batched persistence — one call per moved item, flushed as one batch. */
+  onItemTransformEnd: (id: string) => void;
+}
+
+/**
+ * Auto-arrange items into a grid, masonry columns, or a tidied version of
+ * their current layout.
+ *
+ * Layouts are computed on footprints (rotated bounds) and mapped back onto
+ * each item's transform. Items animate into place through their shared
+ * values; once the animation finishes, every moved item goes through
+ * `onItemTransformEnd`, so the result is one `onTransformEnd` batch (and
+ * one undo step).
+ */
+export const useAutoLayout = ({
+  getItem,
+  getSortedItems,
+  onItemTransformEnd,
+}: Params) => {
+  const onEndRef = useRef(onItemTransformEnd);
+  onEndRef.current = onItemTransformEnd;
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Final transforms still animating, persisted when the animation ends
+  const pending = useRef<Map<RegistryItem, TargetTransform>>(new Map());
+
+  useEffect(
+    () => () => {
+      if (timer.current) clearTimeout(timer.current);
+    },
+    [],
+  );
+
+  return useCallback(
+    (kind: LayoutKind, options: LayoutOptions = {}) => {
+      const {
+        ids,
+        gap = 24,
+        columns,
+        columnWidth,
+        animated = true,
+        duration = 300,
+      } = options;
+
+      // Locked items keep their place, and the layout keeps clear of them
+      const items = (
+        ids
+          ? ids
+              .map(getItem)
+              .filter((item): item is RegistryItem => item !== undefined)
+          : getSortedItems()
+      ).filter((item) => !item.locked);
+      if (items.length === 0) return;
+      const obstacles = getSortedItems()
+        .filter((item) => item.locked)
+        .map(getItemFootprint);
+
+      const footprints = items.map(getItemFootprint);
+      const extent = getUnionBounds(footprints)!;
+      const origin = options.origin ?? { x: extent.x, y: extent.y };
+
+      const targets =
+        kind === "grid"
+          ? layoutGrid(footprints, { origin, gap, columns, obstacles })
+          : kind === "masonry"
+            ? layoutMasonry(footprints, {
+                origin,
+                gap,
+                columns,
+                columnWidth,
+                obstacles,
+              })
+            : tidyLayout(footprints, { gap, obstacles });
+
+      items.forEach((item, i) => {
+        const from = footprints[i];
+        const to = targets[i];
+        // Footprint → transform: the footprint's offset from the item
+        // origin scales with the item, since rotation is about the center
+        const k = from.width > 0 ? to.width / from.width : 1;
+        const next: TargetTransform = {
+          x: to.x - (from.x - item.x.value) * k,
+          y: to.y - (from.y - item.y.value) * k,
+          width: item.width.value * k,
+          height: item.height.value * k,
+        };
+        if (
+          next.x === item.x.value &&
+          next.y === item.y.value &&
+          next.width === item.width.value &&
+          next.height === item.height.value
+        ) {
+          return;
+        }
+        pending.current.set(item, next);
+
+        if (animated) {
+          item.x.value = withTiming(next.x, { duration });
+          item.y.value = withTiming(next.y, { duration });
+          item.width.value = withTiming(next.width, { duration });
+          item.height.value = withTiming(next.height, { duration });
+        } else {
+          item.x.value = next.x;
+          item.y.value = next.y;
+          item.width.value = next.width;
+          item.height.value = next.height;
+        }
+      });
+      if (pending.current.size === 0) return;
+
+      const persist = () => {
+        timer.current = null;
+        pending.current.forEach((final, item) => {
+          // Settle exactly on the target before snapshotting
+          item.x.value = final.x;
+          item.y.value = final.y;
+          item.width.value = final.width;
+          item.height.value = final.height;
+          onEndRef.current(item.id);
+        });
+        pending.current.clear();
+      };
+      if (timer.current) clearTimeout(timer.current);
+      if (animated) {
+        timer.current = setTimeout(persist, duration);
+      } else {
+        persist();
+      }
+    },
+    [getItem, getSortedItems],
+  );
+};
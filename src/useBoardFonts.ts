@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+import { DataModule, useFonts } from "@shopify/react-native-skia";
+import { BoardFonts } from "./types";
+import { DEFAULT_FONT_FALLBACKS } from "./fonts";
+
+interface Params {
+  /**
+   * Family name → font files (`require(...)`, one per weight / style).
+   * Keep the object stable (e.g. module scope); a new one reloads the fonts.
+   */
+  fonts: Record<string, DataModule[]>;
+  /** Family for items without a `fontFamily`. Default: the system face. */
+  defaultFamily?: string;
+  /**
+   * Families tried in order for glyphs the item's family lacks (emoji,
+   * CJK, …). Register them in `fonts` to bundle your own. Default
+   * `DEFAULT_FONT_FALLBACKS`.
+   */
+  fallbackFamilies?: string[];
+}
+
+/**
+ * Loads typefaces into an `SkTypefaceFontProvider` and bundles it with
+ * the board's default family and fallback chain, ready to pass to
+ * `<BoardCanvas fonts={...} />`.
+ *
+ * `fontMgr` is null until every font has loaded; text renders in the
+ * system face until then.
+ */
+export const useBoardFonts = ({
+  fonts,
+  defaultFamily,
+  fallbackFamilies = DEFAULT_FONT_FALLBACKS,
+}: Params): BoardFonts => {
+  const fontMgr = useFonts(fonts);
+  return useMemo(
+    () => ({ fontMgr, defaultFamily, fallbackFamilies }),
+    [fontMgr, defaultFamily, fallbackFamilies],
+  );
+};
@@ -0,0 +1,414 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  BoardActions,
+  BoardCommands,
+  BoardItemData,
+  HistoryState,
+  ItemTransform,
+  OnTransformEnd,
+  RegistryItem,
+  TransformSnapshot,
+} from "./types";
+
+interface DuplicateEntry {
+  type: "duplicate";
+  sourceId: string;
+  createdId: string | null;
+  /** Settles with whether the last duplicate produced an id. */
+  pending: Promise<boolean>;
+}
+
+type HistoryEntry =
+  | { type: "transform"; before: ItemTransform[]; after: ItemTransform[] }
+  | { type: "group"; ids: string[] }
+  | { type: "ungroup"; groups: string[][] }
+  | { type: "zIndex"; ids: string[]; direction: "up" | "down" }
+  | { type: "delete"; items: BoardItemData[] }
+  | DuplicateEntry
+  | { type: "batch"; entries: HistoryEntry[] };
+
+interface Params {
+  items: BoardItemData[] | undefined;
+  getItem: (id: string) => RegistryItem | undefined;
+  getGroupItems: (groupId: string) => RegistryItem[];
+  onTransformEnd?: OnTransformEnd;
+  actions?: BoardActions;
+  /** Maximum number of undo steps kept. Default 100. */
+  limit?: number;
+  onHistoryChange?: (state: HistoryState) => void;
+}
+
+const snapshotFromData = (item: BoardItemData): TransformSnapshot => ({
+  x: item.x ?? 0,
+  y: item.y ?? 0,
+  width: item.width ?? 200,
+  height: item.height ?? 200,
+  rotation: item.rotation ?? 0,
+});
+
+const sameSnapshot = (a: TransformSnapshot, b: TransformSnapshot) =>
+  a.x === b.x &&
+  a.y === b.y &&
+  a.width === b.width &&
+  a.height === b.height &&
+  a.rotation === b.rotation;
+
+const opposite = (direction: "up" | "down") =>
+  direction === "up" ? "down" : "up";
+
+const duplicatesIn = (entry: HistoryEntry): DuplicateEntry[] => {
+  if (entry.type === "duplicate") return [entry];
+  if (entry.type === "batch") return entry.entries.flatMap(duplicatesIn);
+  return [];
+};
+
+/**
+ * Undo / redo stack for board edits.
+ *
+ * Transforms are recorded from the batches that `useBatchedTransformEnd`
+ * emits, so a multi-item drag is one step exactly like it is one
+ * `onTransformEnd` call. The "before" side comes from the last known
+ * transform of each item — its `items` data, or the last batch emitted.
+ *
+ * Structural edits (group, ungroup, z-order, delete, duplicate) go through
+ * the returned `commands`, which call the consumer's `actions` and record
+ * how to revert them. Undo and redo replay through the same callbacks
+ * (`onTransformEnd`, `onGroup`, `onDelete`, …) so the backend stays in sync.
+ */
+export const useBoardHistory = ({
+  items,
+  getItem,
+  getGroupItems,
+  onTransformEnd,
+  actions,
+  limit = 100,
+  onHistoryChange,
+}: Params) => {
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const known = useRef<Map<string, TransformSnapshot>>(new Map());
+
+  const callbackRef = useRef({ onTransformEnd, actions, onHistoryChange });
+  callbackRef.current = { onTransformEnd, actions, onHistoryChange };
+
+  // Last known transforms follow the consumer's data
+  useEffect(() => {
+    if (!items) return;
+    for (const item of items) {
+      known.current.set(item.id, snapshotFromData(item));
+    }
+  }, [items]);
+
+  const notify = useCallback(() => {
+    callbackRef.current.onHistoryChange?.({
+      canUndo: undoStack.current.length > 0,
+      canRedo: redoStack.current.length > 0,
+    });
+  }, []);
+
+  const push = useCallback(
+    (entry: HistoryEntry) => {
+      undoStack.current.push(entry);
+      if (undoStack.current.length > limit) undoStack.current.shift();
+      redoStack.current = [];
+      notify();
+    },
+    [limit, notify],
+  );
+
+  // ─── Recording ─────────────────────────────────────────────────────────
+
+  /** Record a persisted transform batch as one undo step. */
+  const recordTransforms = useCallback(
+    (events: ItemTransform[]) => {
+      const before: ItemTransform[] = [];
+      let changed = false;
+      for (const { id, snapshot } of events) {
+        const prev = known.current.get(id) ?? snapshot;
+        if (!sameSnapshot(prev, snapshot)) changed = true;
+        before.push({ id, snapshot: prev });
+        known.current.set(id, snapshot);
+      }
+      if (changed) push({ type: "transform", before, after: events });
+    },
+    [push],
+  );
+
+  /**
+   * Take a persisted batch as the new last known transforms without
+   * recording a step — for changes the user didn't make (auto height).
+   */
+  const trackTransforms = useCallback((events: ItemTransform[]) => {
+    for (const { id, snapshot } of events) known.current.set(id, snapshot);
+  }, []);
+
+  /** Snapshot an item's data with its current transform, for restoring. */
+  const captureItem = useCallback(
+    (id: string): BoardItemData | null => {
+      const item = getItem(id);
+      if (!item) return null;
+      return {
+        ...item.data,
+        x: item.x.value,
+        y: item.y.value,
+        width: item.width.value,
+        height: item.height.value,
+        rotation: item.rotation.value,
+        zIndex: item.zIndex,
+        groupId: item.groupId,
+      };
+    },
+    [getItem],
+  );
+
+  /** Current group ids of a set of items. */
+  const groupIdsOf = useCallback(
+    (ids: string[]) => {
+      const groupIds = new Set<string>();
+      for (const id of ids) {
+        const gid = getItem(id)?.groupId;
+        if (gid) groupIds.add(gid);
+      }
+      return Array.from(groupIds);
+    },
+    [getItem],
+  );
+
+  /**
+   * Runs `onDuplicate` for an entry and stores the created id. A throw or
+   * rejection is logged and leaves the entry without an id.
+   */
+  const duplicate = useCallback((entry: DuplicateEntry) => {
+    const onDuplicate = callbackRef.current.actions?.onDuplicate;
+    entry.createdId = null;
+    entry.pending = onDuplicate
+      ? new Promise<string | void | undefined>((resolve) =>
+          resolve(onDuplicate(entry.sourceId)),
+        )
+          .then((createdId) => {
+            entry.createdId = createdId ?? null;
+            return entry.createdId !== null;
+          })
+          .catch((err) => {
+            console.error(
+              `[skia-board] Failed to duplicate ${entry.sourceId}:`,
+              err,
+            );
+            return false;
+          })
+      : Promise.resolve(false);
+    return entry.pending;
+  }, []);
+
+  // ─── Commands (perform + record) ───────────────────────────────────────
+
+  const commands = useMemo<BoardCommands>(
+    () => ({
+      deleteItems: (ids) => {
+        const { actions: a } = callbackRef.current;
+        if (!a?.onDelete || ids.length === 0) return;
+        const captured = ids
+          .map(captureItem)
+          .filter((item): item is BoardItemData => item !== null);
+        ids.forEach((id) => a.onDelete!(id));
+        if (a.onRestore && captured.length > 0) {
+          push({ type: "delete", items: captured });
+        }
+      },
+      duplicateItems: (ids) => {
+        if (!callbackRef.current.actions?.onDuplicate || ids.length === 0) {
+          return;
+        }
+        const entries = ids.map(
+          (sourceId): DuplicateEntry => ({
+            type: "duplicate",
+            sourceId,
+            createdId: null,
+            pending: Promise.resolve(false),
+          }),
+        );
+        // Recorded once the ids are known, keeping only duplicates that
+        // succeeded — without an id there is nothing to undo
+        Promise.all(entries.map(duplicate)).then((results) => {
+          const created = entries.filter((_, i) => results[i]);
+          if (created.length === 0) return;
+          push(
+            created.length === 1
+              ? created[0]
+              : { type: "batch", entries: created },
+          );
+        });
+      },
+      changeZIndex: (ids, direction) => {
+        const onZIndexChange = callbackRef.current.actions?.onZIndexChange;
+        if (!onZIndexChange || ids.length === 0) return;
+        ids.forEach((id) => onZIndexChange(id, direction));
+        push({ type: "zIndex", ids, direction });
+      },
+      groupItems: (ids) => {
+        const onGroup = callbackRef.current.actions?.onGroup;
+        if (!onGroup || ids.length < 2) return;
+        onGroup(ids);
+        push({ type: "group", ids });
+      },
+      ungroupItems: (groupIds) => {
+        const onUngroup = callbackRef.current.actions?.onUngroup;
+        if (!onUngroup || groupIds.length === 0) return;
+        const groups = groupIds.map((gid) =>
+          getGroupItems(gid).map((item) => item.id),
+        );
+        onUngroup(groupIds);
+        push({ type: "ungroup", groups });
+      },
+    }),
+    [captureItem, duplicate, getGroupItems, push],
+  );
+
+  // ─── Replay ────────────────────────────────────────────────────────────
+
+  const applyTransforms = useCallback(
+    (events: ItemTransform[]) => {
+      for (const { id, snapshot } of events) {
+        const item = getItem(id);
+        if (item) {
+          item.x.value = snapshot.x;
+          item.y.value = snapshot.y;
+          item.width.value = snapshot.width;
+          item.height.value = snapshot.height;
+          item.rotation.value = snapshot.rotation;
+        }
+        known.current.set(id, snapshot);
+      }
+      callbackRef.current.onTransformEnd?.(events);
+    },
+    [getItem],
+  );
+
+  const revert = useCallback(
+    (entry: HistoryEntry) => {
+      const a = callbackRef.current.actions;
+      switch (entry.type) {
+        case "transform":
+          applyTransforms(entry.before);
+          break;
+        case "group": {
+          const groupIds = groupIdsOf(entry.ids);
+          if (groupIds.length > 0) a?.onUngroup?.(groupIds);
+          break;
+        }
+        case "ungroup":
+          entry.groups.forEach((ids) => {
+            if (ids.length > 1) a?.onGroup?.(ids);
+          });
+          break;
+        case "zIndex":
+          entry.ids.forEach((id) =>
+            a?.onZIndexChange?.(id, opposite(entry.direction)),
+          );
+          break;
+        case "delete":
+          a?.onRestore?.(entry.items);
+          break;
+        case "duplicate":
+          // A redone duplicate may still be in flight; delete once it lands
+          entry.pending.then(() => {
+            if (entry.createdId) a?.onDelete?.(entry.createdId);
+          });
+          break;
+        case "batch":
+          [...entry.entries].reverse().forEach(revert);
+          break;
+      }
+    },
+    [applyTransforms, groupIdsOf],
+  );
+
+  const replay = useCallback(
+    (entry: HistoryEntry) => {
+      const a = callbackRef.current.actions;
+      switch (entry.type) {
+        case "transform":
+          applyTransforms(entry.after);
+          break;
+        case "group":
+          a?.onGroup?.(entry.ids);
+          break;
+        case "ungroup": {
+          const groupIds = groupIdsOf(entry.groups.flat());
+          if (groupIds.length > 0) a?.onUngroup?.(groupIds);
+          break;
+        }
+        case "zIndex":
+          entry.ids.forEach((id) => a?.onZIndexChange?.(id, entry.direction));
+          break;
+        case "delete":
+          entry.items.forEach((item) => a?.onDelete?.(item.id));
+          break;
+        case "duplicate":
+          duplicate(entry);
+          break;
+        case "batch":
+          entry.entries.forEach(replay);
+          break;
+      }
+    },
+    [applyTransforms, groupIdsOf, duplicate],
+  );
+
+  const undo = useCallback(() => {
+    const entry = undoStack.current.pop();
+    if (!entry) return;
+    revert(entry);
+    redoStack.current.push(entry);
+    notify();
+  }, [revert, notify]);
+
+  const redo = useCallback(() => {
+    const entry = redoStack.current.pop();
+    if (!entry) return;
+    replay(entry);
+    undoStack.current.push(entry);
+    notify();
+
+    // Drop the step again if none of its duplicates could be recreated
+    const duplicates = duplicatesIn(entry);
+    if (duplicates.length === 0) return;
+    Promise.all(duplicates.map((d) => d.pending)).then((results) => {
+      if (results.some(Boolean)) return;
+      undoStack.current = undoStack.current.filter((e) => e !== entry);
+      notify();
+    });
+  }, [replay, notify]);
+
+  const canUndo = useCallback(() => undoStack.current.length > 0, []);
+  const canRedo = useCallback(() => redoStack.current.length > 0, []);
+
+  const clear = useCallback(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    notify();
+  }, [notify]);
+
+  return useMemo(
+    () => ({
+      recordTransforms,
+      trackTransforms,
+      commands,
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      clear,
+    }),
+    [
+      recordTransforms,
+      trackTransforms,
+      commands,
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      clear,
+    ],
+  );
+};
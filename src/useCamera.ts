@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  useAnimatedReaction,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+import { scheduleOnRN } from "react-native-worklets";
+import {
+  Bounds,
+  Camera,
+  CameraAnimationOptions,
+  CameraChangeEvent,
+  Point,
+} from "./types";
+
+const CAMERA_EPSILON = 0.0001;
+
+const sameCamera = (a: Camera, b: Camera) =>
+  Math.abs(a.x - b.x) < CAMERA_EPSILON &&
+  Math.abs(a.y - b.y) < CAMERA_EPSILON &&
+  Math.abs(a.scale - b.scale) < CAMERA_EPSILON;
+
+interface Params {
+  /** Canvas view size in screen pixels. */
+  canvasWidth: number;
+  canvasHeight: number;
+  /**
+   * Whether the canvas size has been measured. Until then the size is only
+   * an estimate, so the initial / controlled camera waits for it.
+   * Default true.
+   */
+  measured?: boolean;
+  /** Zoom limits applied to programmatic moves. */
+  minScale: number;
+  maxScale: number;
+  /** Defaults for programmatic moves (e.g. taken from `ZoomControls`). */
+  defaultAnimation?: CameraAnimationOptions;
+  /** Camera applied once, when the canvas size is first known. */
+  initialCamera?: Camera;
+  /**
+   * Controlled camera. Applied whenever it changes, unless it is a value
+   * this hook just reported through `onCameraChange` (avoids fighting
+   * an in-progress gesture when the parent echoes it back).
+   */
+  camera?: Camera;
+  /** Throttled notification after any camera movement. */
+  onCameraChange?: (event: CameraChangeEvent) => void;
+  /** Minimum interval between `onCameraChange` calls in ms. Default 100. */
+  cameraChangeThrottle?: number;
+}
+
+/**
+ * Owns the camera shared values (`scale`, `translateX`, `translateY`) and
+ * provides programmatic camera control on top of them.
+ *
+ * The shared values describe the Skia transform
+ * `screen = world * scale + translate`; the `Camera` object exposed to
+ * consumers is the world point at the viewport center plus the scale.
+ *
+ * Every change to the shared values — gestures, minimap, zoom controls,
+ * animations — is observed with `useAnimatedReaction` and reported
+ * through `onCameraChange`, throttled with a trailing call so the final
+ * resting position is always delivered.
+ */
+export const useCamera = ({
+  canvasWidth,
+  canvasHeight,
+  measured = true,
+  minScale,
+  maxScale,
+  defaultAnimation,
+  initialCamera,
+  camera,
+  onCameraChange,
+  cameraChangeThrottle = 100,
+}: Params) => {
+  const scale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+
+  /** Convert a screen point (relative to the canvas) to world coordinates. */
+  const screenToWorld = useCallback(
+    (point: Point): Point => {
+      const s = scale.value || 1;
+      return {
+        x: (point.x - translateX.value) / s,
+        y: (point.y - translateY.value) / s,
+      };
+    },
+    [scale, translateX, translateY],
+  );
+
+  /** Convert a world point to screen coordinates (relative to the canvas). */
+  const worldToScreen = useCallback(
+    (point: Point): Point => ({
+      x: point.x * scale.value + translateX.value,
+      y: point.y * scale.value + translateY.value,
+    }),
+    [scale, translateX, translateY],
+  );
+
+  /** Current camera: world point at the viewport center, plus zoom. */
+  const getCamera = useCallback((): Camera => {
+    const center = screenToWorld({ x: canvasWidth / 2, y: canvasHeight / 2 });
+    return { ...center, scale: scale.value };
+  }, [screenToWorld, canvasWidth, canvasHeight, scale]);
+
+  /**
+   * Move the camera. Omitted fields keep their current value.
+   * The scale is clamped to the zoom limits.
+   */
+  const setCamera = useCallback(
+    (camera: Partial<Camera>, options: CameraAnimationOptions = {}) => {
+      const {
+        animated = defaultAnimation?.animated ?? true,
+        duration = defaultAnimation?.duration ?? 200,
+      } = options;
+      const current = getCamera();
+      const nextScale = Math.min(
+        Math.max(camera.scale ?? current.scale, minScale),
+        maxScale,
+      );
+      const nextX = camera.x ?? current.x;
+      const nextY = camera.y ?? current.y;
+
+      const tx = canvasWidth / 2 - nextX * nextScale;
+      const ty = canvasHeight / 2 - nextY * nextScale;
+
+      if (animated) {
+        scale.value = withTiming(nextScale, { duration });
+        translateX.value = withTiming(tx, { duration });
+        translateY.value = withTiming(ty, { duration });
+      } else {
+        scale.value = nextScale;
+        translateX.value = tx;
+        translateY.value = ty;
+      }
+    },
+    [
+      getCamera,
+      defaultAnimation?.animated,
+      defaultAnimation?.duration,
+      minScale,
+      maxScale,
+      canvasWidth,
+      canvasHeight,
+      scale,
+      translateX,
+      translateY,
+    ],
+  );
+
+  /** Center the viewport on a world point, keeping the current zoom. */
+  const panTo = useCallback(
+    (point: Point, options?: CameraAnimationOptions) => {
+      setCamera({ x: point.x, y: point.y }, options);
+    },
+    [setCamera],
+  );
+
+  /**
+   * Center and zoom so `bounds` fills the viewport, leaving `padding`
+   * screen pixels on every side.
+   */
+  const zoomToBounds = useCallback(
+    (bounds: Bounds, padding = 40, options?: CameraAnimationOptions) => {
+      const availW = Math.max(canvasWidth - padding * 2, 1);
+      const availH = Math.max(canvasHeight - padding * 2, 1);
+      const fit = Math.min(
+        availW / Math.max(bounds.width, 1),
+        availH / Math.max(bounds.height, 1),
+      );
+      setCamera(
+        {
+          x: bounds.x + bounds.width / 2,
+          y: bounds.y + bounds.height / 2,
+          scale: fit,
+        },
+        options,
+      );
+    },
+    [canvasWidth, canvasHeight, setCamera],
+  );
+
+  // ─── Initial / controlled camera ──────────────────────────────────────
+
+  const initialApplied = useRef(false);
+  useEffect(() => {
+    if (initialApplied.current || !initialCamera || !measured) return;
+    if (canvasWidth <= 0 || canvasHeight <= 0) return;
+    initialApplied.current = true;
+    setCamera(initialCamera, { animated: false });
+  }, [initialCamera, measured, canvasWidth, canvasHeight, setCamera]);
+
+  // Last camera reported to the consumer — a controlled `camera` equal to
+  // this is just our own value echoed back and must not be re-applied.
+  const lastEmitted = useRef<Camera | null>(null);
+  const controlledApplied = useRef(false);
+
+  useEffect(() => {
+    if (!camera || !measured) return;
+    if (canvasWidth <= 0 || canvasHeight <= 0) return;
+    if (lastEmitted.current && sameCamera(camera, lastEmitted.current)) return;
+    if (sameCamera(camera, getCamera())) return;
+    // The first application (once measured) jumps; later ones animate
+    setCamera(camera, controlledApplied.current ? {} : { animated: false });
+    controlledApplied.current = true;
+    // Only react to the camera value itself and the first measurement,
+    // not to later size / callback changes
+  }, [camera?.x, camera?.y, camera?.scale, measured]);
+
+  // ─── Change notifications ─────────────────────────────────────────────
+
+  const onChangeRef = useRef(onCameraChange);
+  onChangeRef.current = onCameraChange;
+  const lastNotifyAt = useRef(0);
+  const trailingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const emitCameraChange = useCallback(() => {
+    const cb = onChangeRef.current;
+    if (!cb) return;
+    const current = getCamera();
+    const s = current.scale || 1;
+    lastEmitted.current = current;
+    lastNotifyAt.current = Date.now();
+    cb({
+      ...current,
+      visibleWorldRect: {
+        x: -translateX.value / s,
+        y: -translateY.value / s,
+        width: canvasWidth / s,
+        height: canvasHeight / s,
+      },
+    });
+  }, [getCamera, translateX, translateY, canvasWidth, canvasHeight]);
+
+  const notifyCameraChange = useCallback(() => {
+    if (trailingTimer.current) clearTimeout(trailingTimer.current);
+    const wait = cameraChangeThrottle - (Date.now() - lastNotifyAt.current);
+    if (wait <= 0) {
+      emitCameraChange();
+    } else {
+      trailingTimer.current = setTimeout(emitCameraChange, wait);
+    }
+  }, [cameraChangeThrottle, emitCameraChange]);
+
+  useEffect(
+    () => () => {
+      if (trailingTimer.current) clearTimeout(trailingTimer.current);
+    },
+    [],
+  );
+
+  const hasListener = !!onCameraChange;
+  useAnimatedReaction(
+    () => [scale.value, translateX.value, translateY.value],
+    (current, previous) => {
+      if (!hasListener || previous === null) return;
+      if (
+        current[0] === previous[0] &&
+        current[1] === previous[1] &&
+        current[2] === previous[2]
+      ) {
+        return;
+      }
+      scheduleOnRN(notifyCameraChange);
+    },
+    [hasListener, notifyCameraChange],
+  );
+
+  return useMemo(
+    () => ({
+      scale,
+      translateX,
+      translateY,
+      screenToWorld,
+      worldToScreen,
+      getCamera,
+      setCamera,
+      panTo,
+      zoomToBounds,
+    }),
+    [
+      scale,
+      translateX,
+      translateY,
+      screenToWorld,
+      worldToScreen,
+      getCamera,
+      setCamera,
+      panTo,
+      zoomToBounds,
+    ],
+  );
+};
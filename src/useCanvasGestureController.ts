@@ -1,8 +1,47 @@
-import { useCallback, useRef } from "react";
+import { useCallback, useRef, useState } from "react";
 import { Gesture } from "react-native-gesture-handler";
-import { SharedValue, useSharedValue } from "react-native-reanimated";
+import {
+  SharedValue,
+  cancelAnimation,
+  useSharedValue,
+  withDecay,
+  withSpring,
+} from "react-native-reanimated";
 import { scheduleOnRN } from "react-native-worklets";
-import { RegistryItem, Point } from "./types";
+import {
+  RegistryItem,
+  Point,
+  ResizeConfig,
+  ResizeHandle,
+  RotateConfig,
+  Bounds,
+  EmptyDragMode,
+  SnapConfig,
+  SmartGuidesConfig,
+  AlignmentGuides,
+} from "./types";
+import {
+  clampPan,
+  computeGuideSnap,
+  computeResize,
+  findResizeHandleAtPoint,
+  getAlignmentGuides,
+  getItemFootprint,
+  getPanRange,
+  getUnionBounds,
+  normalizeRotation,
+  rubberBandScale,
+  snapToStep,
+  toItemLocal,
+} from "./utils";
+
+/** An item being dragged: its position shared values and start position. */
+interface DragTarget {
+  x: SharedValue<number>;
+  y: SharedValue<number>;
+  startX: number;
+  startY: number;
+}
 
 export interface UseCanvasGestureControllerParams {
   /** Camera shared values */
@@ -11,6 +50,11 @@ export interface UseCanvasGestureControllerParams {
   translateY: SharedValue<number>;
   /** Hit test function from registry */
   findItemAtPoint: (point: Point) => RegistryItem | null;
+  /** Region queries from registry (marquee / lasso selection) */
+  findItemsInRect?: (rect: Bounds) => RegistryItem[];
+  findItemsInPolygon?: (polygon: Point[]) => RegistryItem[];
+  /** Neighbourhood query from registry (smart guide targets) */
+  findItemsNear?: (rect: Bounds, distance: number) => RegistryItem[];
   /** Get all items in a group */
   getGroupItems: (groupId: string) => RegistryItem[];
   /** Get a registry item by ID */
@@ -24,6 +68,17 @@ export interface UseCanvasGestureControllerParams {
   onMultiSelectActivate: (id: string) => void;
   onMultiSelectToggle: (id: string) => void;
   onMultiSelectClear: () => void;
+  /**
+   * Adds the items inside a marquee / lasso to the multiselection, replacing
+   * a single selection
+   */
+  onMultiSelectMany?: (ids: string[]) => void;
+  /**
+   * Called with the id of a double-tapped (unlocked) item, e.g. to start
+   * inline editing. While set, single taps wait briefly to rule out a
+   * double tap.
+   */
+  onItemDoubleTap?: (id: string) => void;
   /**
    * Optional: called with screen (x, y) to check if the touch is on the minimap.
    * If it returns true, the gesture controller enters minimap-panning mode.
@@ -35,13 +90,59 @@ export interface UseCanvasGestureControllerParams {
    * Uses cached world bounds from the initial onMinimapPan call.
    */
   onMinimapPanContinue?: (screenX: number, screenY: number) => boolean;
+  /** Currently selected item (single selection). Its resize handles are hit-tested first. */
+  selectedItemId?: string | null;
+  /** Resize configuration. Pass null to disable resize handles. */
+  resize?: ResizeConfig | null;
+  /** Rotate configuration. Pass null to disable the rotate handle. */
+  rotate?: RotateConfig | null;
+  /** What a one-finger drag on empty canvas does. Default "pan". */
+  emptyDragMode?: EmptyDragMode;
+  /**
+   * Whether locked items can be selected by tap, long-press, or marquee /
+   * lasso. They never move either way. Default true.
+   */
+  selectLocked?: boolean;
+  /**
+   * Snap dragged positions (and resized sizes) to multiples of `step`.
+   * Pass null to move freely.
+   */
+  snap?: SnapConfig | null;
+  /**
+   * Snap dragged items to the edges, centers, and spacing of nearby items
+   * and publish guides to draw. Pass null to disable.
+   */
+  smartGuides?: SmartGuidesConfig | null;
+  /** Zoom limits for pinch. Default 0.1 – 5. */
+  minScale?: number;
+  maxScale?: number;
+  /**
+   * Let pinch overshoot the zoom limits with resistance and spring back
+   * on release, instead of stopping hard. Default false.
+   */
+  rubberBandZoom?: boolean;
+  /**
+   * Keep the camera moving after a canvas fling, decaying with velocity.
+   * Pass null to stop dead on release.
+   */
+  panInertia?: { deceleration?: number } | null;
+  /**
+   * Optional world-space rect the viewport center must stay inside.
+   * Clamps canvas panning and stops inertial flings at its edges.
+   */
+  panBounds?: Bounds | null;
+  /** Canvas view size in screen pixels (needed for `panBounds`). */
+  canvasWidth?: number;
+  canvasHeight?: number;
 }
 
 /**
  * Centralized gesture controller for the board canvas.
  *
- * Handles pan (canvas panning + item dragging), tap (selection),
- * long-press (multiselect activation), and pinch (zoom).
+ * Handles pan (canvas panning + item dragging + handle resize / rotate +
+ * marquee / lasso selection), tap (selection), double-tap (optional,
+ * e.g. inline editing), long-press (multiselect activation), pinch (zoom),
+ * and two-finger pan in the selection modes.
  *
  * Gesture callbacks run on the UI thread (worklets). We must:
  * - Use SharedValues for all gesture state (not useRef)
@@ -53,6 +154,9 @@ export const useCanvasGestureController = ({
   translateX,
   translateY,
   findItemAtPoint,
+  findItemsInRect,
+  findItemsInPolygon,
+  findItemsNear,
   getGroupItems,
   getItem,
   onItemSelected,
@@ -62,28 +166,74 @@ export const useCanvasGestureController = ({
   onMultiSelectActivate,
   onMultiSelectToggle,
   onMultiSelectClear,
+  onMultiSelectMany,
+  onItemDoubleTap,
   onMinimapPan,
   onMinimapPanContinue,
+  selectedItemId = null,
+  resize = null,
+  rotate = null,
+  emptyDragMode = "pan",
+  selectLocked = true,
+  snap = null,
+  smartGuides = null,
+  minScale = 0.1,
+  maxScale = 5,
+  rubberBandZoom = false,
+  panInertia = null,
+  panBounds = null,
+  canvasWidth = 0,
+  canvasHeight = 0,
 }: UseCanvasGestureControllerParams) => {
   // Gesture state as shared values (accessible from worklets)
-  // mode: 0=idle, 1=panning-canvas, 2=dragging-item, 3=minimap-panning
+  // mode: 0=idle, 1=panning-canvas, 2=dragging-item, 3=minimap-panning,
+  //       4=resizing-item, 5=rotating-item, 6=region-selecting
   const mode = useSharedValue(0);
 
+  // Marquee / lasso outline in canvas coordinates, flattened [x0, y0, x1, y1, ...].
+  // Marquee keeps exactly two points (start, current); lasso appends.
+  const selectionPoints = useSharedValue<number[]>([]);
+
+  // Smart guides for the current drag, in canvas coordinates
+  const guides = useSharedValue<AlignmentGuides>({ lines: [], gaps: [] });
+
   // Saved values for gesture start
   const savedCameraX = useSharedValue(0);
   const savedCameraY = useSharedValue(0);
   const savedScale = useSharedValue(1);
 
-  // Per-item drag start positions (shared values, worklet-accessible)
-  const dragStartItemX = useSharedValue(0);
-  const dragStartItemY = useSharedValue(0);
+  // Pinch state: the world point under the focal point at pinch start
+  const isPinching = useSharedValue(false);
+  const pinchWorldX = useSharedValue(0);
+  const pinchWorldY = useSharedValue(0);
+
+  // Items being dragged, captured at drag start so per-frame updates run
+  // entirely in the worklet. The grabbed item comes first — snapping is
+  // relative to its origin.
+  const dragTargets = useSharedValue<DragTarget[]>([]);
+  // Smart guides: footprint of everything being dragged at drag start,
+  // and the footprints of the nearby items it can snap to
+  const dragStartBounds = useSharedValue<Bounds | null>(null);
+  const guideTargets = useSharedValue<Bounds[]>([]);
+
+  // Ids of the items in the current drag, so culling keeps them mounted
+  // while members come in from off-screen
+  const [draggingIds, setDraggingIds] = useState<string[]>([]);
 
   // JS-thread refs for item identity (only accessed via scheduleOnRN)
   const activeItemRef = useRef<RegistryItem | null>(null);
   const groupItemsRef = useRef<RegistryItem[]>([]);
-  const groupStartPositions = useRef<Map<string, { x: number; y: number }>>(
-    new Map(),
-  );
+  const resizeStartRef = useRef<{
+    handle: ResizeHandle;
+    bounds: Bounds;
+    rotation: number;
+  } | null>(null);
+  const rotateStartRef = useRef<{
+    center: Point;
+    touch: Point;
+    angle: number;
+    rotation: number;
+  } | null>(null);
 
   /**
    * JS-thread: called from onBegin via scheduleOnRN to do hit test and set up drag.
@@ -98,12 +248,68 @@ export const useCanvasGestureController = ({
 
       const canvasX = (screenX - translateX.value) / scale.value;
       const canvasY = (screenY - translateY.value) / scale.value;
-      const hitItem = findItemAtPoint({ x: canvasX, y: canvasY });
+
+      // Handles of the selected item take priority over everything
+      // underneath them, including other items. Locked items have none.
+      const selected =
+        (resize || rotate) && selectedItemId && !isMultiSelectActive
+          ? getItem(selectedItemId)
+          : undefined;
+      if (selected && !selected.locked) {
+        const bounds = {
+          x: selected.x.value,
+          y: selected.y.value,
+          width: selected.width.value,
+          height: selected.height.value,
+        };
+        const rotation = selected.rotation.value;
+        const touch = { x: canvasX, y: canvasY };
+        const local = toItemLocal(touch, bounds, rotation);
+        const handleSize = resize?.handleSize ?? 12;
+        const radius =
+          (handleSize / 2 + (resize?.hitSlop ?? 10)) / scale.value;
+
+        if (rotate) {
+          const hx = bounds.x + bounds.width / 2;
+          const hy = bounds.y - (rotate.handleOffset ?? 28) / scale.value;
+          if (
+            Math.abs(local.x - hx) <= radius &&
+            Math.abs(local.y - hy) <= radius
+          ) {
+            const center = {
+              x: bounds.x + bounds.width / 2,
+              y: bounds.y + bounds.height / 2,
+            };
+            activeItemRef.current = selected;
+            rotateStartRef.current = {
+              center,
+              touch,
+              angle: Math.atan2(touch.y - center.y, touch.x - center.x),
+              rotation,
+            };
+            mode.value = 5; // rotating-item
+            return;
+          }
+        }
+
+        const handle = resize
+          ? findResizeHandleAtPoint(local, bounds, radius)
+          : null;
+        if (handle) {
+          activeItemRef.current = selected;
+          resizeStartRef.current = { handle, bounds, rotation };
+          mode.value = 4; // resizing-item
+          return;
+        }
+      }
+
+      // Locked items don't move — a drag on one pans the canvas, whatever
+      // the empty-drag mode
+      const hit = findItemAtPoint({ x: canvasX, y: canvasY });
+      const hitItem = hit && !hit.locked ? hit : null;
 
       if (hitItem) {
         activeItemRef.current = hitItem;
-        dragStartItemX.value = hitItem.x.value;
-        dragStartItemY.value = hitItem.y.value;
 
         // In multiselect mode, drag all selected items together
         if (isMultiSelectActive && multiSelectIds.has(hitItem.id)) {
@@ -113,29 +319,46 @@ export const useCanvasGestureController = ({
             if (item) selectedItems.push(item);
           }
           groupItemsRef.current = selectedItems;
-          groupStartPositions.current.clear();
-          for (const si of selectedItems) {
-            groupStartPositions.current.set(si.id, {
-              x: si.x.value,
-              y: si.y.value,
-            });
-          }
         } else if (hitItem.groupId) {
-          const groupItems = getGroupItems(hitItem.groupId);
-          groupItemsRef.current = groupItems;
-          groupStartPositions.current.clear();
-          for (const gi of groupItems) {
-            groupStartPositions.current.set(gi.id, {
-              x: gi.x.value,
-              y: gi.y.value,
-            });
-          }
+          groupItemsRef.current = getGroupItems(hitItem.groupId);
         } else {
           groupItemsRef.current = [];
-          groupStartPositions.current.clear();
+        }
+        // Locked members stay put while the rest of the selection moves
+        groupItemsRef.current = groupItemsRef.current.filter(
+          (item) => !item.locked,
+        );
+
+        const dragged = [
+          hitItem,
+          ...groupItemsRef.current.filter((item) => item.id !== hitItem.id),
+        ];
+        dragTargets.value = dragged.map((item) => ({
+          x: item.x,
+          y: item.y,
+          startX: item.x.value,
+          startY: item.y.value,
+        }));
+        setDraggingIds(dragged.map((item) => item.id));
+
+        if (smartGuides && findItemsNear) {
+          const draggedIds = new Set(dragged.map((item) => item.id));
+          const start = getUnionBounds(dragged.map(getItemFootprint));
+          // Anything within about a screen's reach can be a target
+          const reach = Math.max(canvasWidth, canvasHeight, 1) / scale.value;
+          dragStartBounds.value = start;
+          guideTargets.value = start
+            ? findItemsNear(start, reach)
+                .filter((item) => !draggedIds.has(item.id))
+                .map(getItemFootprint)
+            : [];
         }
 
         mode.value = 2; // dragging-item
+      } else if (emptyDragMode !== "pan" && !hit) {
+        activeItemRef.current = null;
+        selectionPoints.value = [canvasX, canvasY, canvasX, canvasY];
+        mode.value = 6; // region-selecting
       } else {
         activeItemRef.current = null;
         savedCameraX.value = translateX.value;
@@ -151,39 +374,89 @@ export const useCanvasGestureController = ({
       translateY,
       scale,
       mode,
-      dragStartItemX,
-      dragStartItemY,
+      dragTargets,
+      dragStartBounds,
+      guideTargets,
       savedCameraX,
       savedCameraY,
       isMultiSelectActive,
       multiSelectIds,
       onMinimapPan,
+      selectedItemId,
+      resize,
+      rotate,
+      emptyDragMode,
+      selectionPoints,
+      smartGuides,
+      findItemsNear,
+      canvasWidth,
+      canvasHeight,
     ],
   );
 
   /**
-   * JS-thread: apply drag delta to active item and group/selected members.
+   * JS-thread: resize the active item from the grabbed handle.
    */
-  const applyDrag = useCallback(
+  const applyResize = useCallback(
     (dx: number, dy: number) => {
       const item = activeItemRef.current;
-      if (!item) return;
+      const start = resizeStartRef.current;
+      if (!item || !start || !resize) return;
 
-      item.x.value = dragStartItemX.value + dx;
-      item.y.value = dragStartItemY.value + dy;
+      const next = computeResize(start.bounds, start.handle, dx, dy, {
+        lockAspectRatio: resize.lockAspectRatio,
+        minWidth: resize.minWidth ?? 20,
+        minHeight: resize.minHeight ?? 20,
+        rotation: start.rotation,
+        snap: snap && snap.size !== false ? snap.step : 0,
+      });
 
-      for (const gi of groupItemsRef.current) {
-        if (gi.id === item.id) continue;
-        const start = groupStartPositions.current.get(gi.id);
-        if (start) {
-          gi.x.value = start.x + dx;
-          gi.y.value = start.y + dy;
-        }
-      }
+      item.x.value = next.x;
+      item.y.value = next.y;
+      item.width.value = next.width;
+      item.height.value = next.height;
     },
-    [dragStartItemX, dragStartItemY],
+    [resize, snap],
   );
 
+  /**
+   * JS-thread: rotate the active item around its center so the
+   * rotate handle follows the finger.
+   */
+  const applyRotate = useCallback(
+    (dx: number, dy: number) => {
+      const item = activeItemRef.current;
+      const start = rotateStartRef.current;
+      if (!item || !start || !rotate) return;
+
+      const { center, touch } = start;
+      const angle = Math.atan2(
+        touch.y + dy - center.y,
+        touch.x + dx - center.x,
+      );
+      const degrees =
+        start.rotation + ((angle - start.angle) * 180) / Math.PI;
+
+      item.rotation.value = normalizeRotation(
+        degrees,
+        rotate.snap ? (rotate.snapAngle ?? 15) : 0,
+      );
+    },
+    [rotate],
+  );
+
+  /**
+   * JS-thread: persist the resized / rotated item, then reset.
+   */
+  const endHandleGesture = useCallback(() => {
+    const item = activeItemRef.current;
+    if (item) onItemTransformEnd(item.id);
+    activeItemRef.current = null;
+    resizeStartRef.current = null;
+    rotateStartRef.current = null;
+    mode.value = 0;
+  }, [onItemTransformEnd, mode]);
+
   /**
    * JS-thread: persist transforms for dragged item and group, then reset.
    */
@@ -200,9 +473,58 @@ export const useCanvasGestureController = ({
     }
     activeItemRef.current = null;
     groupItemsRef.current = [];
-    groupStartPositions.current.clear();
+    dragTargets.value = [];
+    setDraggingIds([]);
+    dragStartBounds.value = null;
+    guideTargets.value = [];
+    guides.value = { lines: [], gaps: [] };
     mode.value = 0;
-  }, [onItemTransformEnd, mode]);
+  }, [
+    onItemTransformEnd,
+    mode,
+    dragTargets,
+    dragStartBounds,
+    guideTargets,
+    guides,
+  ]);
+
+  /**
+   * JS-thread: select every item inside the finished marquee / lasso.
+   */
+  const endRegionSelect = useCallback(
+    (points: number[]) => {
+      if (points.length < 4) return;
+
+      let hits: RegistryItem[] = [];
+      if (emptyDragMode === "lasso") {
+        const polygon: Point[] = [];
+        for (let i = 0; i + 1 < points.length; i += 2) {
+          polygon.push({ x: points[i], y: points[i + 1] });
+        }
+        hits = findItemsInPolygon?.(polygon) ?? [];
+      } else {
+        const [x0, y0, x1, y1] = points;
+        hits =
+          findItemsInRect?.({
+            x: Math.min(x0, x1),
+            y: Math.min(y0, y1),
+            width: Math.abs(x1 - x0),
+            height: Math.abs(y1 - y0),
+          }) ?? [];
+      }
+
+      if (!selectLocked) hits = hits.filter((item) => !item.locked);
+      if (hits.length === 0) return;
+      onMultiSelectMany?.(hits.map((item) => item.id));
+    },
+    [
+      emptyDragMode,
+      selectLocked,
+      findItemsInRect,
+      findItemsInPolygon,
+      onMultiSelectMany,
+    ],
+  );
 
   /**
    * JS-thread: tap hit test.
@@ -211,7 +533,8 @@ export const useCanvasGestureController = ({
     (screenX: number, screenY: number) => {
       const canvasX = (screenX - translateX.value) / scale.value;
       const canvasY = (screenY - translateY.value) / scale.value;
-      const hitItem = findItemAtPoint({ x: canvasX, y: canvasY });
+      const hit = findItemAtPoint({ x: canvasX, y: canvasY });
+      const hitItem = hit && (selectLocked || !hit.locked) ? hit : null;
 
       if (isMultiSelectActive) {
         if (hitItem) {
@@ -226,6 +549,7 @@ export const useCanvasGestureController = ({
     },
     [
       findItemAtPoint,
+      selectLocked,
       onItemSelected,
       translateX,
       translateY,
@@ -236,6 +560,19 @@ export const useCanvasGestureController = ({
     ],
   );
 
+  /**
+   * JS-thread: double-tap hit test.
+   */
+  const doDoubleTapHitTest = useCallback(
+    (screenX: number, screenY: number) => {
+      const canvasX = (screenX - translateX.value) / scale.value;
+      const canvasY = (screenY - translateY.value) / scale.value;
+      const hitItem = findItemAtPoint({ x: canvasX, y: canvasY });
+      if (hitItem && !hitItem.locked) onItemDoubleTap?.(hitItem.id);
+    },
+    [findItemAtPoint, onItemDoubleTap, translateX, translateY, scale],
+  );
+
   /**
    * JS-thread: long-press hit test → activate multiselect.
    */
@@ -243,26 +580,26 @@ export const useCanvasGestureController = ({
     (screenX: number, screenY: number) => {
       const canvasX = (screenX - translateX.value) / scale.value;
       const canvasY = (screenY - translateY.value) / scale.value;
-      const hitItem = findItemAtPoint({ x: canvasX, y: canvasY });
+      const hit = findItemAtPoint({ x: canvasX, y: canvasY });
+      const hitItem = hit && (selectLocked || !hit.locked) ? hit : null;
 
       if (hitItem) {
         if (isMultiSelectActive) {
           onMultiSelectToggle(hitItem.id);
         } else {
           onMultiSelectActivate(hitItem.id);
-          onItemSelected(null);
         }
       }
     },
     [
       findItemAtPoint,
+      selectLocked,
       translateX,
       translateY,
       scale,
       isMultiSelectActive,
       onMultiSelectActivate,
       onMultiSelectToggle,
-      onItemSelected,
     ],
   );
 
@@ -280,33 +617,200 @@ export const useCanvasGestureController = ({
     [onMinimapPanContinue, onMinimapPan],
   );
 
+  // ─── Item dragging (worklet) ─────────────────────────────────────────────────
+
+  /**
+   * Move the captured drag targets by the gesture translation (canvas units).
+   * With snapping, the grabbed item's origin snaps and the others keep
+   * their offsets from it.
+   */
+  const applyDrag = (rawDx: number, rawDy: number) => {
+    "worklet";
+    const targets = dragTargets.value;
+    if (targets.length === 0) return;
+
+    const lead = targets[0];
+    const step = snap?.step ?? 0;
+    let dx = snapToStep(lead.startX + rawDx, step) - lead.startX;
+    let dy = snapToStep(lead.startY + rawDy, step) - lead.startY;
+
+    // Smart guides win over the grid on any axis they snap
+    const start = dragStartBounds.value;
+    if (smartGuides && start) {
+      const nearby = guideTargets.value;
+      const spacing = smartGuides.spacing !== false;
+      const threshold = (smartGuides.threshold ?? 6) / scale.value;
+      const moving = { ...start, x: start.x + rawDx, y: start.y + rawDy };
+      const hit = computeGuideSnap(moving, nearby, threshold, spacing);
+      if (hit.dx !== null) dx = rawDx + hit.dx;
+      if (hit.dy !== null) dy = rawDy + hit.dy;
+      guides.value = getAlignmentGuides(
+        { ...start, x: start.x + dx, y: start.y + dy },
+        nearby,
+        spacing,
+      );
+    }
+
+    for (const t of targets) {
+      t.x.value = t.startX + dx;
+      t.y.value = t.startY + dy;
+    }
+  };
+
+  // ─── Camera panning helpers (worklets) ──────────────────────────────────────
+
+  /** Translate range that keeps the viewport center inside `panBounds`. */
+  const getTranslateRange = (axis: "x" | "y"): [number, number] => {
+    "worklet";
+    return getPanRange(
+      panBounds,
+      axis,
+      scale.value,
+      axis === "x" ? canvasWidth : canvasHeight,
+    );
+  };
+
+  /** Camera translation clamped to `panBounds` at the given zoom. */
+  const clampCameraTranslation = (x: number, y: number, s: number) => {
+    "worklet";
+    return clampPan({ x, y }, s, panBounds, canvasWidth, canvasHeight);
+  };
+
+  const setCameraTranslation = (x: number, y: number) => {
+    "worklet";
+    const clamped = clampCameraTranslation(x, y, scale.value);
+    translateX.value = clamped.x;
+    translateY.value = clamped.y;
+  };
+
+  /** Any new touch stops a running fling. */
+  const stopCameraMomentum = () => {
+    "worklet";
+    cancelAnimation(translateX);
+    cancelAnimation(translateY);
+  };
+
+  /** Continue a canvas pan with velocity-based decay after release. */
+  const flingCamera = (velocityX: number, velocityY: number) => {
+    "worklet";
+    if (!panInertia) return;
+    const deceleration = panInertia.deceleration ?? 0.997;
+    translateX.value = withDecay({
+      velocity: velocityX,
+      deceleration,
+      clamp: panBounds ? getTranslateRange("x") : undefined,
+    });
+    translateY.value = withDecay({
+      velocity: velocityY,
+      deceleration,
+      clamp: panBounds ? getTranslateRange("y") : undefined,
+    });
+  };
+
   // ─── Gestures ──────────────────────────────────────────────────────────────
 
   const panGesture = Gesture.Pan()
     .onBegin((e) => {
       "worklet";
+      stopCameraMomentum();
       scheduleOnRN(beginGesture, e.x, e.y);
     })
     .onUpdate((e) => {
       "worklet";
       if (mode.value === 1) {
-        translateX.value = savedCameraX.value + e.translationX;
-        translateY.value = savedCameraY.value + e.translationY;
+        if (isPinching.value) {
+          // Pinch owns the camera; rebase so panning resumes without a jump
+          savedCameraX.value = translateX.value - e.translationX;
+          savedCameraY.value = translateY.value - e.translationY;
+          return;
+        }
+        setCameraTranslation(
+          savedCameraX.value + e.translationX,
+          savedCameraY.value + e.translationY,
+        );
       } else if (mode.value === 2) {
-        const dx = e.translationX / scale.value;
-        const dy = e.translationY / scale.value;
-        scheduleOnRN(applyDrag, dx, dy);
+        applyDrag(e.translationX / scale.value, e.translationY / scale.value);
       } else if (mode.value === 3) {
         scheduleOnRN(continueMinimapPan, e.x, e.y);
+      } else if (mode.value === 4) {
+        const dx = e.translationX / scale.value;
+        const dy = e.translationY / scale.value;
+        scheduleOnRN(applyResize, dx, dy);
+      } else if (mode.value === 5) {
+        const dx = e.translationX / scale.value;
+        const dy = e.translationY / scale.value;
+        scheduleOnRN(applyRotate, dx, dy);
+      } else if (mode.value === 6) {
+        const x = (e.x - translateX.value) / scale.value;
+        const y = (e.y - translateY.value) / scale.value;
+        if (emptyDragMode === "lasso") {
+          const pts = selectionPoints.value;
+          const lx = pts[pts.length - 2];
+          const ly = pts[pts.length - 1];
+          // Skip points closer than ~4 screen px to keep the outline light
+          const minDist = 4 / scale.value;
+          const d2 = (x - lx) * (x - lx) + (y - ly) * (y - ly);
+          if (d2 >= minDist * minDist) {
+            selectionPoints.value = [...pts, x, y];
+          }
+        } else {
+          const pts = selectionPoints.value;
+          selectionPoints.value = [pts[0], pts[1], x, y];
+        }
       }
     })
-    .onEnd(() => {
+    .onEnd((e) => {
       "worklet";
-      if (mode.value === 2) {
+      if (mode.value === 1) {
+        mode.value = 0;
+        if (!isPinching.value) flingCamera(e.velocityX, e.velocityY);
+      } else if (mode.value === 2) {
         scheduleOnRN(endDrag);
+      } else if (mode.value === 4 || mode.value === 5) {
+        scheduleOnRN(endHandleGesture);
+      } else if (mode.value === 6) {
+        const pts = selectionPoints.value;
+        selectionPoints.value = [];
+        mode.value = 0;
+        scheduleOnRN(endRegionSelect, pts);
       } else {
         mode.value = 0;
       }
+    })
+    .onFinalize(() => {
+      "worklet";
+      // Cancelled selections (e.g. a second finger landed) never reach onEnd
+      if (mode.value === 6) {
+        selectionPoints.value = [];
+        mode.value = 0;
+      }
+    });
+
+  // In the selection modes one finger draws, so two fingers pan the canvas
+  const twoFingerPanGesture = Gesture.Pan()
+    .enabled(emptyDragMode !== "pan")
+    .minPointers(2)
+    .onBegin(() => {
+      "worklet";
+      stopCameraMomentum();
+      savedCameraX.value = translateX.value;
+      savedCameraY.value = translateY.value;
+    })
+    .onUpdate((e) => {
+      "worklet";
+      if (isPinching.value) {
+        savedCameraX.value = translateX.value - e.translationX;
+        savedCameraY.value = translateY.value - e.translationY;
+        return;
+      }
+      setCameraTranslation(
+        savedCameraX.value + e.translationX,
+        savedCameraY.value + e.translationY,
+      );
+    })
+    .onEnd((e) => {
+      "worklet";
+      if (!isPinching.value) flingCamera(e.velocityX, e.velocityY);
     });
 
   const tapGesture = Gesture.Tap().onEnd((e) => {
@@ -314,6 +818,13 @@ export const useCanvasGestureController = ({
     scheduleOnRN(doTapHitTest, e.x, e.y);
   });
 
+  const doubleTapGesture = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd((e) => {
+      "worklet";
+      scheduleOnRN(doDoubleTapHitTest, e.x, e.y);
+    });
+
   const longPressGesture = Gesture.LongPress()
     .minDuration(400)
     .onEnd((e) => {
@@ -321,20 +832,67 @@ export const useCanvasGestureController = ({
       scheduleOnRN(doLongPressHitTest, e.x, e.y);
     });
 
+  // Zooms around the focal point: the world point that was under the
+  // fingers at pinch start stays under them (and follows them as they move).
   const pinchGesture = Gesture.Pinch()
-    .onBegin(() => {
+    .onStart((e) => {
       "worklet";
+      stopCameraMomentum();
+      isPinching.value = true;
       savedScale.value = scale.value;
+      pinchWorldX.value = (e.focalX - translateX.value) / scale.value;
+      pinchWorldY.value = (e.focalY - translateY.value) / scale.value;
     })
     .onUpdate((e) => {
       "worklet";
-      scale.value = savedScale.value * e.scale;
+      const next = rubberBandScale(
+        savedScale.value * e.scale,
+        minScale,
+        maxScale,
+        rubberBandZoom,
+      );
+      scale.value = next;
+      setCameraTranslation(
+        e.focalX - pinchWorldX.value * next,
+        e.focalY - pinchWorldY.value * next,
+      );
+    })
+    .onEnd((e) => {
+      "worklet";
+      const current = scale.value;
+      const target = Math.min(Math.max(current, minScale), maxScale);
+      if (target !== current) {
+        // Spring back to the limit, keeping the focal point anchored
+        const worldX = (e.focalX - translateX.value) / current;
+        const worldY = (e.focalY - translateY.value) / current;
+        const settled = clampCameraTranslation(
+          e.focalX - worldX * target,
+          e.focalY - worldY * target,
+          target,
+        );
+        scale.value = withSpring(target);
+        translateX.value = withSpring(settled.x);
+        translateY.value = withSpring(settled.y);
+      }
+    })
+    .onFinalize(() => {
+      "worklet";
+      isPinching.value = false;
     });
 
+  if (emptyDragMode !== "pan") panGesture.maxPointers(1);
+
   const composed = Gesture.Simultaneous(
     pinchGesture,
-    Gesture.Race(longPressGesture, tapGesture, panGesture),
+    twoFingerPanGesture,
+    Gesture.Race(
+      longPressGesture,
+      onItemDoubleTap
+        ? Gesture.Exclusive(doubleTapGesture, tapGesture)
+        : tapGesture,
+      panGesture,
+    ),
   );
 
-  return { gesture: composed };
+  return { gesture: composed, selectionPoints, guides, draggingIds };
 };
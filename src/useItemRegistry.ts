@@ -1,23 +1,64 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import { RegistryItem, ItemRegistry, Point, BoardItemData } from "./types";
+import {
+  RegistryItem,
+  ItemRegistry,
+  Point,
+  BoardItemData,
+  Bounds,
+} from "./types";
 import { makeMutable } from "react-native-reanimated";
 import { SkImage } from "@shopify/react-native-skia";
+import { createSpatialIndex } from "./spatialIndex";
+import {
+  convexPolygonsIntersect,
+  getItemBounds,
+  getItemFootprint,
+  getRotatedCorners,
+  getUnionBounds,
+  isPointInItem,
+  itemIntersectsPolygon,
+} from "./utils";
 
 /**
  * Manages the centralized registry of all board items.
  * Each item's transforms are stored as shared values so Skia
  * and gestures can read/write them on the UI thread.
+ *
+ * Item footprints are kept in a spatial index (and group membership in a
+ * lookup map) so hit tests and region queries only look at nearby items.
+ * The index is refreshed on sync; call `refreshItems` after moving items
+ * through their shared values (e.g. at transform end).
  */
 export const useItemRegistry = (items: BoardItemData[] | undefined) => {
   const registry = useRef<ItemRegistry>(new Map());
+  const index = useRef(createSpatialIndex());
+  const groups = useRef<Map<string, Set<string>>>(new Map());
   // Version counter — incremented after registry sync & image loads to trigger re-render
   const [version, setVersion] = useState(0);
 
+  const addToGroup = (groupId: string, id: string) => {
+    let members = groups.current.get(groupId);
+    if (!members) {
+      members = new Set();
+      groups.current.set(groupId, members);
+    }
+    members.add(id);
+  };
+
+  const removeFromGroup = (groupId: string, id: string) => {
+    const members = groups.current.get(groupId);
+    if (!members) return;
+    members.delete(id);
+    if (members.size === 0) groups.current.delete(groupId);
+  };
+
   // Sync registry with input data
   useEffect(() => {
     if (!items || items.length === 0) {
       if (registry.current.size > 0) {
         registry.current.clear();
+        index.current.clear();
+        groups.current.clear();
         setVersion((v) => v + 1);
       }
       return;
@@ -29,7 +70,10 @@ export const useItemRegistry = (items: BoardItemData[] | undefined) => {
     const itemIds = new Set(items.map((item) => item.id));
     for (const id of registry.current.keys()) {
       if (!itemIds.has(id)) {
+        const removed = registry.current.get(id);
+        if (removed?.groupId) removeFromGroup(removed.groupId, id);
         registry.current.delete(id);
+        index.current.remove(id);
         changed = true;
       }
     }
@@ -47,25 +91,31 @@ export const useItemRegistry = (items: BoardItemData[] | undefined) => {
         const r = item.rotation ?? 0;
         const z = item.zIndex ?? 0;
         const g = item.groupId ?? null;
+        const l = !!item.locked;
 
+        let moved = false;
         if (existing.x.value !== x) {
           existing.x.value = x;
-          changed = true;
+          moved = true;
         }
         if (existing.y.value !== y) {
           existing.y.value = y;
-          changed = true;
+          moved = true;
         }
         if (existing.width.value !== w) {
           existing.width.value = w;
-          changed = true;
+          moved = true;
         }
         if (existing.height.value !== h) {
           existing.height.value = h;
-          changed = true;
+          moved = true;
         }
         if (existing.rotation.value !== r) {
           existing.rotation.value = r;
+          moved = true;
+        }
+        if (moved) {
+          index.current.update(item.id, getItemFootprint(existing));
           changed = true;
         }
         if (existing.zIndex !== z) {
@@ -73,15 +123,21 @@ export const useItemRegistry = (items: BoardItemData[] | undefined) => {
           changed = true;
         }
         if (existing.groupId !== g) {
+          if (existing.groupId) removeFromGroup(existing.groupId, item.id);
+          if (g) addToGroup(g, item.id);
           existing.groupId = g;
           changed = true;
         }
+        if (existing.locked !== l) {
+          existing.locked = l;
+          changed = true;
+        }
         if (existing.data !== item) {
           existing.data = item;
           changed = true;
         }
       } else {
-        registry.current.set(item.id, {
+        const created: RegistryItem = {
           id: item.id,
           groupId: item.groupId ?? null,
           x: makeMutable(item.x ?? 0),
@@ -90,9 +146,13 @@ export const useItemRegistry = (items: BoardItemData[] | undefined) => {
           height: makeMutable(item.height ?? 200),
           rotation: makeMutable(item.rotation ?? 0),
           zIndex: item.zIndex ?? 0,
+          locked: !!item.locked,
           image: null,
           data: item,
-        });
+        };
+        registry.current.set(item.id, created);
+        index.current.update(item.id, getItemFootprint(created));
+        if (created.groupId) addToGroup(created.groupId, item.id);
         changed = true;
       }
     });
@@ -124,38 +184,104 @@ export const useItemRegistry = (items: BoardItemData[] | undefined) => {
     );
   }, []);
 
+  /**
+   * Re-index items after their transforms changed through shared values
+   * (drag, resize, rotate, undo). Sync keeps the index current otherwise.
+   */
+  const refreshItems = useCallback((ids: Iterable<string>) => {
+    for (const id of ids) {
+      const item = registry.current.get(id);
+      if (item) index.current.update(id, getItemFootprint(item));
+    }
+  }, []);
+
+  /** Registry items for a list of ids, skipping unknown ones. */
+  const resolve = (ids: string[]): RegistryItem[] => {
+    const result: RegistryItem[] = [];
+    for (const id of ids) {
+      const item = registry.current.get(id);
+      if (item) result.push(item);
+    }
+    return result;
+  };
+
+  /**
+   * Hit test: all items at a given canvas point, topmost first.
+   * The point is mapped into each item's rotated frame before testing.
+   */
+  const findItemsAtPoint = useCallback((point: Point): RegistryItem[] => {
+    return resolve(index.current.queryPoint(point))
+      .filter((item) =>
+        isPointInItem(point, getItemBounds(item), item.rotation.value),
+      )
+      .sort((a, b) => b.zIndex - a.zIndex);
+  }, []);
+
   /**
    * Hit test: find the topmost item at a given canvas point.
-   * Iterates in reverse zIndex order so the topmost item wins.
    */
-  const findItemAtPoint = useCallback((point: Point): RegistryItem | null => {
-    const items = Array.from(registry.current.values()).sort(
-      (a, b) => b.zIndex - a.zIndex,
+  const findItemAtPoint = useCallback(
+    (point: Point): RegistryItem | null => findItemsAtPoint(point)[0] ?? null,
+    [findItemsAtPoint],
+  );
+
+  /**
+   * Region query: all items whose rotated footprint overlaps `rect`.
+   */
+  const findItemsInRect = useCallback((rect: Bounds): RegistryItem[] => {
+    const rectCorners = getRotatedCorners(rect, 0);
+    return resolve(index.current.queryRect(rect)).filter((item) =>
+      convexPolygonsIntersect(
+        getRotatedCorners(getItemBounds(item), item.rotation.value),
+        rectCorners,
+      ),
     );
+  }, []);
 
-    for (const item of items) {
-      const ix = item.x.value;
-      const iy = item.y.value;
-      const iw = item.width.value;
-      const ih = item.height.value;
-
-      if (
-        point.x >= ix &&
-        point.x <= ix + iw &&
-        point.y >= iy &&
-        point.y <= iy + ih
-      ) {
-        return item;
-      }
-    }
-    return null;
+  /**
+   * Region query: all items overlapping a freeform (lasso) polygon.
+   */
+  const findItemsInPolygon = useCallback((polygon: Point[]): RegistryItem[] => {
+    const extent = getUnionBounds(
+      polygon.map((p) => ({ x: p.x, y: p.y, width: 0, height: 0 })),
+    );
+    if (!extent) return [];
+    return resolve(index.current.queryRect(extent)).filter((item) =>
+      itemIntersectsPolygon(getItemBounds(item), item.rotation.value, polygon),
+    );
   }, []);
 
+  /**
+   * Neighbourhood query: all items whose footprint comes within `distance`
+   * of `rect`. Axis-aligned only, so cheaper than `findItemsInRect`.
+   */
+  const findItemsNear = useCallback(
+    (rect: Bounds, distance = 0): RegistryItem[] =>
+      resolve(
+        index.current.queryRect({
+          x: rect.x - distance,
+          y: rect.y - distance,
+          width: rect.width + distance * 2,
+          height: rect.height + distance * 2,
+        }),
+      ),
+    [],
+  );
+
+  /**
+   * Nearest items to a canvas point, closest first, measured to their
+   * footprints (0 when the point is inside one).
+   */
+  const findNearestItems = useCallback(
+    (point: Point, count = 1, maxDistance = Infinity): RegistryItem[] =>
+      resolve(index.current.nearest(point, count, maxDistance)),
+    [],
+  );
+
   /** Get all items in a group */
   const getGroupItems = useCallback((groupId: string): RegistryItem[] => {
-    return Array.from(registry.current.values()).filter(
-      (item) => item.groupId === groupId,
-    );
+    const members = groups.current.get(groupId);
+    return members ? resolve(Array.from(members)) : [];
   }, []);
 
   return {
@@ -164,7 +290,13 @@ export const useItemRegistry = (items: BoardItemData[] | undefined) => {
     getItem,
     getSortedItems,
     findItemAtPoint,
+    findItemsAtPoint,
+    findItemsInRect,
+    findItemsInPolygon,
+    findItemsNear,
+    findNearestItems,
     getGroupItems,
+    refreshItems,
     setImage,
   };
 };
@@ -0,0 +1,38 @@
+import { useState } from "react";
+import { useAnimatedReaction } from "react-native-reanimated";
+import { scheduleOnRN } from "react-native-worklets";
+import { RegistryItem } from "./types";
+
+interface ItemSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * The item's live width and height (rounded to whole canvas units) as
+ * React state, for layout done on the JS thread — text wrapping, line
+ * counts. Follows resizes before the consumer's data catches up.
+ */
+export const useItemSize = (item: RegistryItem): ItemSize => {
+  const [size, setSize] = useState<ItemSize>(() => ({
+    width: Math.round(item.width.value),
+    height: Math.round(item.height.value),
+  }));
+
+  useAnimatedReaction(
+    () => [Math.round(item.width.value), Math.round(item.height.value)],
+    (current, previous) => {
+      if (
+        previous &&
+        current[0] === previous[0] &&
+        current[1] === previous[1]
+      ) {
+        return;
+      }
+      scheduleOnRN(setSize, { width: current[0], height: current[1] });
+    },
+    [item],
+  );
+
+  return size;
+};
@@ -1,12 +1,24 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 export interface MultiSelectState {
-  /** Whether multiselect mode is active */
+  /**
+   * Whether multiselect mode is active: more than one item is selected, or
+   * the user entered the mode by long-press / marquee (taps then toggle).
+   */
   isActive: boolean;
   /** Set of currently selected item IDs */
   selectedIds: Set<string>;
+  /** The selected item when exactly one is selected outside multiselect */
+  selectedId: string | null;
+  /** Replace the selection. Two or more ids show as a multiselection. */
+  select: (itemIds: string[]) => void;
   /** Enter multiselect mode with an initial item */
   activate: (itemId: string) => void;
+  /**
+   * Add several items at once (e.g. from a marquee), entering multiselect.
+   * Replaces a single selection; extends an active multiselection.
+   */
+  selectMany: (itemIds: string[]) => void;
   /** Toggle an item in/out of the selection */
   toggle: (itemId: string) => void;
   /** Clear selection and exit multiselect mode */
@@ -17,40 +29,125 @@ export interface MultiSelectState {
   count: number;
 }
 
+interface Params {
+  /** Controlled selection. Omit to keep the selection internal. */
+  selectedIds?: string[];
+  /** Called with the new ids whenever the user changes the selection. */
+  onSelectionChange?: (ids: string[]) => void;
+}
+
+const sameIds = (a: Set<string>, b: Set<string>) => {
+  if (a.size !== b.size) return false;
+  for (const id of a) if (!b.has(id)) return false;
+  return true;
+};
+
 /**
- * Manages multiselect state for the board canvas.
+ * Manages the board selection: one set of ids, where a single selection
+ * and a multiselection are just different sizes of the same set.
  *
- * Activation: long-press an item to enter multiselect + select it.
+ * Activation: long-press an item to enter multiselect + select it,
+ * or drag a marquee / lasso over empty canvas.
  * While active: taps toggle items. Tapping empty space clears.
+ *
+ * Pass `selectedIds` to control the selection from outside; user changes
+ * are then only reported through `onSelectionChange`.
  */
-export const useMultiSelect = (): MultiSelectState => {
-  const [isActive, setIsActive] = useState(false);
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-
-  const activate = useCallback((itemId: string) => {
-    setIsActive(true);
-    setSelectedIds(new Set([itemId]));
-  }, []);
-
-  const toggle = useCallback((itemId: string) => {
-    setSelectedIds((prev) => {
-      const next = new Set(prev);
+export const useMultiSelect = ({
+  selectedIds: controlledIds,
+  onSelectionChange,
+}: Params = {}): MultiSelectState => {
+  const [internalIds, setInternalIds] = useState<Set<string>>(new Set());
+  // Entered by long-press / marquee; a single id then still shows as multi
+  const [multiMode, setMultiMode] = useState(false);
+
+  const controlledSet = useMemo(
+    () => (controlledIds ? new Set(controlledIds) : null),
+    [controlledIds],
+  );
+  const selectedIds = controlledSet ?? internalIds;
+
+  // Latest selection, so several updates in one event compose
+  const latest = useRef(selectedIds);
+  latest.current = selectedIds;
+  // Last selection reported by the user, to tell parent-driven changes
+  const committed = useRef(selectedIds);
+
+  // An emptied selection leaves the mode. A selection set by the parent
+  // shows as multi exactly when it holds several items.
+  useEffect(() => {
+    if (selectedIds.size === 0) {
+      setMultiMode(false);
+    } else if (controlledSet && !sameIds(controlledSet, committed.current)) {
+      setMultiMode(controlledSet.size > 1);
+    }
+    committed.current = selectedIds;
+  }, [selectedIds, controlledSet]);
+
+  const controlled = controlledSet !== null;
+  const onChangeRef = useRef(onSelectionChange);
+  onChangeRef.current = onSelectionChange;
+
+  const commit = useCallback(
+    (next: Set<string>) => {
+      if (next.size === 0) setMultiMode(false);
+      if (sameIds(next, latest.current)) return;
+      latest.current = next;
+      committed.current = next;
+      if (!controlled) setInternalIds(next);
+      onChangeRef.current?.(Array.from(next));
+    },
+    [controlled],
+  );
+
+  const select = useCallback(
+    (itemIds: string[]) => {
+      setMultiMode(false);
+      commit(new Set(itemIds));
+    },
+    [commit],
+  );
+
+  const activate = useCallback(
+    (itemId: string) => {
+      setMultiMode(true);
+      commit(new Set([itemId]));
+    },
+    [commit],
+  );
+
+  const isActive =
+    selectedIds.size > 0 && (multiMode || selectedIds.size > 1);
+
+  const selectMany = useCallback(
+    (itemIds: string[]) => {
+      if (itemIds.length === 0) return;
+      setMultiMode(true);
+      commit(
+        new Set(isActive ? [...latest.current, ...itemIds] : itemIds),
+      );
+    },
+    [commit, isActive],
+  );
+
+  const toggle = useCallback(
+    (itemId: string) => {
+      const next = new Set(latest.current);
       if (next.has(itemId)) {
         next.delete(itemId);
       } else {
         next.add(itemId);
       }
-      if (next.size === 0) {
-        setIsActive(false);
-      }
-      return next;
-    });
-  }, []);
+      setMultiMode(true);
+      commit(next);
+    },
+    [commit],
+  );
 
   const clear = useCallback(() => {
-    setIsActive(false);
-    setSelectedIds(new Set());
-  }, []);
+    setMultiMode(false);
+    commit(new Set());
+  }, [commit]);
 
   const isSelected = useCallback(
     (itemId: string) => selectedIds.has(itemId),
@@ -60,7 +157,13 @@ export const useMultiSelect = (): MultiSelectState => {
   return {
     isActive,
     selectedIds,
+    selectedId:
+      !isActive && selectedIds.size === 1
+        ? selectedIds.values().next().value!
+        : null,
+    select,
     activate,
+    selectMany,
     toggle,
     clear,
     isSelected,
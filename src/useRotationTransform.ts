@@ -0,0 +1,23 @@
+import { useDerivedValue } from "react-native-reanimated";
+import { RegistryItem } from "./types";
+
+/**
+ * Derives a Skia `transform` that rotates an item around its center.
+ *
+ * Built-in renderers wrap their content in a `<Group transform={...}>`
+ * with this value, so everything drawn in the item's axis-aligned
+ * `x / y / width / height` frame (including selection borders) rotates
+ * together and follows gestures on the UI thread.
+ */
+export const useRotationTransform = (item: RegistryItem) =>
+  useDerivedValue(() => {
+    const cx = item.x.value + item.width.value / 2;
+    const cy = item.y.value + item.height.value / 2;
+    return [
+      { translateX: cx },
+      { translateY: cy },
+      { rotate: (item.rotation.value * Math.PI) / 180 },
+      { translateX: -cx },
+      { translateY: -cy },
+    ];
+  });
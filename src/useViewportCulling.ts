@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { SharedValue, useAnimatedReaction } from "react-native-reanimated";
+import { scheduleOnRN } from "react-native-worklets";
+import { Bounds } from "./types";
+
+interface Params {
+  scale: SharedValue<number>;
+  translateX: SharedValue<number>;
+  translateY: SharedValue<number>;
+  /** Canvas view size in screen pixels. */
+  canvasWidth: number;
+  canvasHeight: number;
+  /** Extra area kept around the viewport, in screen pixels. Default 200. */
+  margin?: number;
+  /** Set false to always report null (culling off). */
+  enabled?: boolean;
+}
+
+/**
+ * Tracks the world rect worth rendering: the visible viewport plus a
+ * margin, computed on the UI thread from the camera shared values.
+ *
+ * The rect is snapped outward to a coarse power-of-two cell grid (about a
+ * quarter of the viewport) so React state only changes when the camera
+ * crosses a cell, not on every frame of a pan or pinch. Returns null when
+ * culling is disabled or the canvas has not been laid out yet — render
+ * everything in that case.
+ */
+export const useViewportCulling = ({
+  scale,
+  translateX,
+  translateY,
+  canvasWidth,
+  canvasHeight,
+  margin = 200,
+  enabled = true,
+}: Params): Bounds | null => {
+  const [visibleRect, setVisibleRect] = useState<Bounds | null>(null);
+  const active = enabled && canvasWidth > 0 && canvasHeight > 0;
+
+  useAnimatedReaction(
+    () => {
+      if (!active) return null;
+      const s = scale.value || 1;
+      const left = (-translateX.value - margin) / s;
+      const top = (-translateY.value - margin) / s;
+      const right = (canvasWidth - translateX.value + margin) / s;
+      const bottom = (canvasHeight - translateY.value + margin) / s;
+      const viewport = Math.max(canvasWidth, canvasHeight) / s;
+      const cell = Math.pow(2, Math.ceil(Math.log2(viewport / 4)));
+      return [
+        Math.floor(left / cell) * cell,
+        Math.floor(top / cell) * cell,
+        Math.ceil(right / cell) * cell,
+        Math.ceil(bottom / cell) * cell,
+      ];
+    },
+    (current, previous) => {
+      if (
+        current &&
+        previous &&
+        current[0] === previous[0] &&
+        current[1] === previous[1] &&
+        current[2] === previous[2] &&
+        current[3] === previous[3]
+      ) {
+        return;
+      }
+      scheduleOnRN(
+        setVisibleRect,
+        current
+          ? {
+              x: current[0],
+              y: current[1],
+              width: current[2] - current[0],
+              height: current[3] - current[1],
+            }
+          : null,
+      );
+    },
+    [active, margin, canvasWidth, canvasHeight],
+  );
+
+  return active ? visibleRect : null;
+};
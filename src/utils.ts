@@ -1,4 +1,13 @@
 import { Skia, type SkMatrix } from "@shopify/react-native-skia";
+import {
+  AlignMode,
+  AlignmentGuides,
+  Bounds,
+  DistributeAxis,
+  Point,
+  RegistryItem,
+  ResizeHandle,
+} from "./types";
 
 export const mapScreenToCanvas = (
   point: { x: number; y: number },
@@ -34,3 +43,755 @@ export const mapScreenToCanvas = (
 
   return { x: newX, y: newY };
 };
+
+// ─── Zoom ────────────────────────────────────────────────────────────────────
+
+/**
+ * Clamps a zoom level to [min, max]. With `rubberBand`, values past a limit
+ * are damped instead of cut off, so the pinch still responds but resists.
+ */
+export const rubberBandScale = (
+  scale: number,
+  min: number,
+  max: number,
+  rubberBand: boolean,
+): number => {
+  "worklet";
+
+  if (scale >= min && scale <= max) return scale;
+  if (!rubberBand) return Math.min(Math.max(scale, min), max);
+
+  const limit = scale > max ? max : min;
+  // Overshoot grows with the 4th root of the ratio past the limit
+  return limit * Math.pow(scale / limit, 0.25);
+};
+
+// ─── Pan bounds ──────────────────────────────────────────────────────────────
+
+/**
+ * Camera translate range along one axis that keeps the viewport center
+ * inside `bounds` at zoom `scale`. Unbounded without `bounds`.
+ */
+export const getPanRange = (
+  bounds: Bounds | null | undefined,
+  axis: "x" | "y",
+  scale: number,
+  viewSize: number,
+): [number, number] => {
+  "worklet";
+
+  if (!bounds) return [-Infinity, Infinity];
+  const half = viewSize / 2;
+  const min = axis === "x" ? bounds.x : bounds.y;
+  const max = min + (axis === "x" ? bounds.width : bounds.height);
+  return [half - max * scale, half - min * scale];
+};
+
+/** Clamps a camera translation to `bounds` (see `getPanRange`). */
+export const clampPan = (
+  translation: Point,
+  scale: number,
+  bounds: Bounds | null | undefined,
+  viewWidth: number,
+  viewHeight: number,
+): Point => {
+  "worklet";
+
+  const [minX, maxX] = getPanRange(bounds, "x", scale, viewWidth);
+  const [minY, maxY] = getPanRange(bounds, "y", scale, viewHeight);
+  return {
+    x: Math.min(Math.max(translation.x, minX), maxX),
+    y: Math.min(Math.max(translation.y, minY), maxY),
+  };
+};
+
+// ─── Rotation ────────────────────────────────────────────────────────────────
+
+/**
+ * Rotates `point` around `center` by `degrees` (clockwise, screen axes).
+ */
+export const rotatePoint = (
+  point: Point,
+  center: Point,
+  degrees: number,
+): Point => {
+  "worklet";
+
+  if (degrees === 0) return point;
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  };
+};
+
+/**
+ * Maps a canvas point into an item's unrotated frame, so it can be
+ * compared against the item's axis-aligned `x / y / width / height`.
+ */
+export const toItemLocal = (
+  point: Point,
+  bounds: Bounds,
+  rotation: number,
+): Point => {
+  "worklet";
+
+  const center = {
+    x: bounds.x + bounds.width / 2,
+    y: bounds.y + bounds.height / 2,
+  };
+  return rotatePoint(point, center, -rotation);
+};
+
+/**
+ * Returns the four corners of a rotated item in canvas space,
+ * clockwise from the (unrotated) top-left.
+ */
+export const getRotatedCorners = (
+  bounds: Bounds,
+  rotation: number,
+): Point[] => {
+  "worklet";
+
+  const { x, y, width, height } = bounds;
+  const center = { x: x + width / 2, y: y + height / 2 };
+  return [
+    rotatePoint({ x, y }, center, rotation),
+    rotatePoint({ x: x + width, y }, center, rotation),
+    rotatePoint({ x: x + width, y: y + height }, center, rotation),
+    rotatePoint({ x, y: y + height }, center, rotation),
+  ];
+};
+
+/**
+ * Axis-aligned bounding box of a rotated item — its footprint on the canvas.
+ * Used by hit testing, the minimap, and region queries so they all agree.
+ */
+export const getRotatedBounds = (bounds: Bounds, rotation: number): Bounds => {
+  "worklet";
+
+  if (rotation % 360 === 0) return bounds;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const c of getRotatedCorners(bounds, rotation)) {
+    if (c.x < minX) minX = c.x;
+    if (c.y < minY) minY = c.y;
+    if (c.x > maxX) maxX = c.x;
+    if (c.y > maxY) maxY = c.y;
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Reads an item's current unrotated bounds from its shared values.
+ */
+export const getItemBounds = (item: RegistryItem): Bounds => ({
+  x: item.x.value,
+  y: item.y.value,
+  width: item.width.value,
+  height: item.height.value,
+});
+
+/**
+ * Current footprint (rotated bounding box) of a registry item.
+ */
+export const getItemFootprint = (item: RegistryItem): Bounds =>
+  getRotatedBounds(getItemBounds(item), item.rotation.value);
+
+/**
+ * Smallest rect containing all of `rects`, or null when empty.
+ */
+export const getUnionBounds = (rects: Bounds[]): Bounds | null => {
+  "worklet";
+
+  if (rects.length === 0) return null;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const r of rects) {
+    if (r.x < minX) minX = r.x;
+    if (r.y < minY) minY = r.y;
+    if (r.x + r.width > maxX) maxX = r.x + r.width;
+    if (r.y + r.height > maxY) maxY = r.y + r.height;
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Whether a canvas point lies inside a (possibly rotated) item.
+ */
+export const isPointInItem = (
+  point: Point,
+  bounds: Bounds,
+  rotation: number,
+): boolean => {
+  "worklet";
+
+  const local = toItemLocal(point, bounds, rotation);
+  return (
+    local.x >= bounds.x &&
+    local.x <= bounds.x + bounds.width &&
+    local.y >= bounds.y &&
+    local.y <= bounds.y + bounds.height
+  );
+};
+
+/**
+ * Rounds a value to the nearest multiple of `step`. A step of 0 disables
+ * snapping.
+ */
+export const snapToStep = (value: number, step: number): number => {
+  "worklet";
+  if (step <= 0) return value;
+  return Math.round(value / step) * step;
+};
+
+/**
+ * Normalizes an angle in degrees to [0, 360), optionally snapping it
+ * to the nearest multiple of `snapAngle`.
+ */
+export const normalizeRotation = (degrees: number, snapAngle = 0): number => {
+  "worklet";
+
+  let r = degrees;
+  if (snapAngle > 0) r = Math.round(r / snapAngle) * snapAngle;
+  r = ((r % 360) + 360) % 360;
+  return r;
+};
+
+// ─── Resize handles ──────────────────────────────────────────────────────────
+
+/**
+ * Handle anchors as fractions of the item's width / height.
+ * `fx`/`fy` of 0 is the left/top edge, 0.5 the middle, 1 the right/bottom edge.
+ */
+export const RESIZE_HANDLES: { handle: ResizeHandle; fx: number; fy: number }[] =
+  [
+    { handle: "top-left", fx: 0, fy: 0 },
+    { handle: "top", fx: 0.5, fy: 0 },
+    { handle: "top-right", fx: 1, fy: 0 },
+    { handle: "right", fx: 1, fy: 0.5 },
+    { handle: "bottom-right", fx: 1, fy: 1 },
+    { handle: "bottom", fx: 0.5, fy: 1 },
+    { handle: "bottom-left", fx: 0, fy: 1 },
+    { handle: "left", fx: 0, fy: 0.5 },
+  ];
+
+/**
+ * Returns the resize handle under a canvas point, or null.
+ * `radius` is the hit radius in canvas units (screen size / camera scale).
+ */
+export const findResizeHandleAtPoint = (
+  point: Point,
+  bounds: Bounds,
+  radius: number,
+): ResizeHandle | null => {
+  "worklet";
+
+  for (const { handle, fx, fy } of RESIZE_HANDLES) {
+    const hx = bounds.x + bounds.width * fx;
+    const hy = bounds.y + bounds.height * fy;
+    if (Math.abs(point.x - hx) <= radius && Math.abs(point.y - hy) <= radius) {
+      return handle;
+    }
+  }
+  return null;
+};
+
+/**
+ * Computes the new bounds of an item being resized from `handle`
+ * by a canvas-space delta. The edge(s) opposite the handle stay fixed.
+ *
+ * With `lockAspectRatio`, corners scale uniformly along whichever axis
+ * moved the most, and edge handles grow the other axis around its center.
+ *
+ * For rotated items the delta is mapped into the item's local frame and
+ * the result is shifted so the fixed edge stays put on screen.
+ */
+export const computeResize = (
+  start: Bounds,
+  handle: ResizeHandle,
+  worldDx: number,
+  worldDy: number,
+  options: {
+    lockAspectRatio?: boolean;
+    minWidth: number;
+    minHeight: number;
+    rotation?: number;
+    /** Round the resized width / height to multiples of this step. */
+    snap?: number;
+  },
+): Bounds => {
+  "worklet";
+
+  const rotation = options.rotation ?? 0;
+  const local = rotatePoint(
+    { x: worldDx, y: worldDy },
+    { x: 0, y: 0 },
+    -rotation,
+  );
+  const dx = local.x;
+  const dy = local.y;
+
+  let fx = 0.5;
+  let fy = 0.5;
+  for (const h of RESIZE_HANDLES) {
+    if (h.handle === handle) {
+      fx = h.fx;
+      fy = h.fy;
+      break;
+    }
+  }
+
+  let width =
+    fx === 0 ? start.width - dx : fx === 1 ? start.width + dx : start.width;
+  let height =
+    fy === 0 ? start.height - dy : fy === 1 ? start.height + dy : start.height;
+
+  const snap = options.snap ?? 0;
+
+  if (options.lockAspectRatio && start.width > 0 && start.height > 0) {
+    const sx = width / start.width;
+    const sy = height / start.height;
+    let s: number;
+    if (fx === 0.5) s = sy;
+    else if (fy === 0.5) s = sx;
+    else s = Math.abs(sx - 1) > Math.abs(sy - 1) ? sx : sy;
+
+    // Snap the driving side; the other follows the ratio
+    if (snap > 0) {
+      s =
+        s === sx
+          ? snapToStep(start.width * s, snap) / start.width
+          : snapToStep(start.height * s, snap) / start.height;
+    }
+
+    s = Math.max(
+      s,
+      options.minWidth / start.width,
+      options.minHeight / start.height,
+    );
+    width = start.width * s;
+    height = start.height * s;
+  } else {
+    if (snap > 0) {
+      if (fx !== 0.5) width = snapToStep(width, snap);
+      if (fy !== 0.5) height = snapToStep(height, snap);
+    }
+    width = Math.max(width, options.minWidth);
+    height = Math.max(height, options.minHeight);
+  }
+
+  // Keep the opposite edge (or the center, for the unhandled axis) fixed
+  const x =
+    fx === 0
+      ? start.x + start.width - width
+      : fx === 1
+        ? start.x
+        : start.x + (start.width - width) / 2;
+  const y =
+    fy === 0
+      ? start.y + start.height - height
+      : fy === 1
+        ? start.y
+        : start.y + (start.height - height) / 2;
+
+  if (rotation === 0) return { x, y, width, height };
+
+  // The anchor is the same local point before and after, but the rotation
+  // center moved with the new size — compensate so it stays fixed on screen.
+  const anchorBefore = rotatePoint(
+    {
+      x: start.x + start.width * (1 - fx),
+      y: start.y + start.height * (1 - fy),
+    },
+    { x: start.x + start.width / 2, y: start.y + start.height / 2 },
+    rotation,
+  );
+  const anchorAfter = rotatePoint(
+    { x: x + width * (1 - fx), y: y + height * (1 - fy) },
+    { x: x + width / 2, y: y + height / 2 },
+    rotation,
+  );
+
+  return {
+    x: x + anchorBefore.x - anchorAfter.x,
+    y: y + anchorBefore.y - anchorAfter.y,
+    width,
+    height,
+  };
+};
+
+// ─── Region tests ────────────────────────────────────────────────────────────
+
+/**
+ * Even-odd point-in-polygon test. Works for concave (lasso) polygons.
+ */
+export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  "worklet";
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Separating-axis test for two convex polygons (e.g. a marquee rect and
+ * a rotated item quad).
+ */
+export const convexPolygonsIntersect = (a: Point[], b: Point[]): boolean => {
+  "worklet";
+
+  for (const poly of [a, b]) {
+    for (let i = 0; i < poly.length; i++) {
+      const p1 = poly[i];
+      const p2 = poly[(i + 1) % poly.length];
+      const nx = p2.y - p1.y;
+      const ny = p1.x - p2.x;
+
+      let minA = Infinity;
+      let maxA = -Infinity;
+      for (const p of a) {
+        const d = p.x * nx + p.y * ny;
+        if (d < minA) minA = d;
+        if (d > maxA) maxA = d;
+      }
+      let minB = Infinity;
+      let maxB = -Infinity;
+      for (const p of b) {
+        const d = p.x * nx + p.y * ny;
+        if (d < minB) minB = d;
+        if (d > maxB) maxB = d;
+      }
+      if (maxA < minB || maxB < minA) return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Whether a (possibly rotated) item overlaps a lasso polygon:
+ * any item corner or its center inside the lasso, or any lasso
+ * vertex inside the item.
+ */
+export const itemIntersectsPolygon = (
+  bounds: Bounds,
+  rotation: number,
+  polygon: Point[],
+): boolean => {
+  "worklet";
+
+  if (polygon.length < 3) return false;
+
+  const center = {
+    x: bounds.x + bounds.width / 2,
+    y: bounds.y + bounds.height / 2,
+  };
+  if (isPointInPolygon(center, polygon)) return true;
+  for (const c of getRotatedCorners(bounds, rotation)) {
+    if (isPointInPolygon(c, polygon)) return true;
+  }
+  for (const p of polygon) {
+    if (isPointInItem(p, bounds, rotation)) return true;
+  }
+  return false;
+};
+
+/**
+ * Whether two axis-aligned rects overlap (touching edges count).
+ */
+export const rectsIntersect = (a: Bounds, b: Bounds): boolean => {
+  "worklet";
+
+  return (
+    a.x <= b.x + b.width &&
+    b.x <= a.x + a.width &&
+    a.y <= b.y + b.height &&
+    b.y <= a.y + a.height
+  );
+};
+
+// ─── Smart guides ────────────────────────────────────────────────────────────
+
+/** Left / center / right (or top / middle / bottom) of a rect on one axis. */
+const axisStops = (start: number, size: number) => {
+  "worklet";
+  return [start, start + size / 2, start + size];
+};
+
+/** Whether two rects overlap on the other axis (so they are neighbours). */
+const overlapsAcross = (a: Bounds, b: Bounds, axis: "x" | "y") => {
+  "worklet";
+  return axis === "x"
+    ? a.y < b.y + b.height && b.y < a.y + a.height
+    : a.x < b.x + b.width && b.x < a.x + a.width;
+};
+
+/**
+ * Nearest targets before and after `moving` along one axis, among those
+ * that overlap it on the other axis.
+ */
+const findNeighbours = (
+  moving: Bounds,
+  targets: Bounds[],
+  axis: "x" | "y",
+) => {
+  "worklet";
+
+  const start = axis === "x" ? moving.x : moving.y;
+  const end = start + (axis === "x" ? moving.width : moving.height);
+  let before: Bounds | null = null;
+  let after: Bounds | null = null;
+  let beforeEnd = -Infinity;
+  let afterStart = Infinity;
+  for (const t of targets) {
+    if (!overlapsAcross(moving, t, axis)) continue;
+    const tStart = axis === "x" ? t.x : t.y;
+    const tEnd = tStart + (axis === "x" ? t.width : t.height);
+    if (tEnd <= start + (end - start) / 2 && tEnd > beforeEnd) {
+      before = t;
+      beforeEnd = tEnd;
+    } else if (tStart >= start + (end - start) / 2 && tStart < afterStart) {
+      after = t;
+      afterStart = tStart;
+    }
+  }
+  return { before, after, beforeEnd, afterStart };
+};
+
+/**
+ * Offset along one axis that snaps `moving` to the closest target edge,
+ * center, or equal-spacing position within `threshold`, or null.
+ */
+const findAxisSnap = (
+  moving: Bounds,
+  targets: Bounds[],
+  axis: "x" | "y",
+  threshold: number,
+  spacing: boolean,
+): number | null => {
+  "worklet";
+
+  const start = axis === "x" ? moving.x : moving.y;
+  const size = axis === "x" ? moving.width : moving.height;
+  const stops = axisStops(start, size);
+  let best: number | null = null;
+
+  for (const t of targets) {
+    const tStops = axisStops(
+      axis === "x" ? t.x : t.y,
+      axis === "x" ? t.width : t.height,
+    );
+    for (const s of stops) {
+      for (const ts of tStops) {
+        const d = ts - s;
+        if (
+          Math.abs(d) <= threshold &&
+          (best === null || Math.abs(d) < Math.abs(best))
+        ) {
+          best = d;
+        }
+      }
+    }
+  }
+
+  if (spacing) {
+    const { before, after, beforeEnd, afterStart } = findNeighbours(
+      moving,
+      targets,
+      axis,
+    );
+    if (before && after && afterStart - beforeEnd >= size) {
+      const d = (beforeEnd + afterStart - size) / 2 - start;
+      if (
+        Math.abs(d) <= threshold &&
+        (best === null || Math.abs(d) < Math.abs(best))
+      ) {
+        best = d;
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Snap offsets that align a dragged rect with nearby targets.
+ * `dx` / `dy` are null on an axis with nothing within `threshold`.
+ */
+export const computeGuideSnap = (
+  moving: Bounds,
+  targets: Bounds[],
+  threshold: number,
+  spacing = true,
+): { dx: number | null; dy: number | null } => {
+  "worklet";
+
+  return {
+    dx: findAxisSnap(moving, targets, "x", threshold, spacing),
+    dy: findAxisSnap(moving, targets, "y", threshold, spacing),
+  };
+};
+
+/**
+ * Guide segments for a rect that has been snapped into place: one line per
+ * aligned edge / center spanning every target it lines up with, plus the
+ * two gaps when it sits exactly between its neighbours.
+ */
+export const getAlignmentGuides = (
+  moving: Bounds,
+  targets: Bounds[],
+  spacing = true,
+): AlignmentGuides => {
+  "worklet";
+
+  const EPSILON = 0.01;
+  const lines: number[] = [];
+  const gaps: number[] = [];
+
+  for (const axis of ["x", "y"] as const) {
+    const stops = axisStops(
+      axis === "x" ? moving.x : moving.y,
+      axis === "x" ? moving.width : moving.height,
+    );
+    for (const s of stops) {
+      // Extent of the guide along the other axis
+      let from = axis === "x" ? moving.y : moving.x;
+      let to = from + (axis === "x" ? moving.height : moving.width);
+      let matched = false;
+      for (const t of targets) {
+        const tStops = axisStops(
+          axis === "x" ? t.x : t.y,
+          axis === "x" ? t.width : t.height,
+        );
+        if (!tStops.some((ts) => Math.abs(ts - s) < EPSILON)) continue;
+        matched = true;
+        const tFrom = axis === "x" ? t.y : t.x;
+        const tTo = tFrom + (axis === "x" ? t.height : t.width);
+        if (tFrom < from) from = tFrom;
+        if (tTo > to) to = tTo;
+      }
+      if (!matched) continue;
+      if (axis === "x") lines.push(s, from, s, to);
+      else lines.push(from, s, to, s);
+    }
+
+    if (!spacing) continue;
+    const { before, after, beforeEnd, afterStart } = findNeighbours(
+      moving,
+      targets,
+      axis,
+    );
+    if (!before || !after) continue;
+    const start = axis === "x" ? moving.x : moving.y;
+    const end = start + (axis === "x" ? moving.width : moving.height);
+    if (Math.abs(start - beforeEnd - (afterStart - end)) >= EPSILON) continue;
+
+    // Draw the gaps through the middle of the moving rect
+    const mid =
+      axis === "x" ? moving.y + moving.height / 2 : moving.x + moving.width / 2;
+    if (axis === "x") {
+      gaps.push(beforeEnd, mid, start, mid, end, mid, afterStart, mid);
+    } else {
+      gaps.push(mid, beforeEnd, mid, start, mid, end, mid, afterStart);
+    }
+  }
+
+  return { lines, gaps };
+};
+
+// ─── Arrange ─────────────────────────────────────────────────────────────────
+
+/**
+ * Offsets that line rects up on the selection's edge or center.
+ * Returned in the same order as `rects`.
+ */
+export const alignBounds = (rects: Bounds[], mode: AlignMode): Point[] => {
+  const union = getUnionBounds(rects);
+  if (!union) return [];
+
+  return rects.map((r) => {
+    switch (mode) {
+      case "left":
+        return { x: union.x - r.x, y: 0 };
+      case "center":
+        return { x: union.x + (union.width - r.width) / 2 - r.x, y: 0 };
+      case "right":
+        return { x: union.x + union.width - r.width - r.x, y: 0 };
+      case "top":
+        return { x: 0, y: union.y - r.y };
+      case "middle":
+        return { x: 0, y: union.y + (union.height - r.height) / 2 - r.y };
+      case "bottom":
+        return { x: 0, y: union.y + union.height - r.height - r.y };
+    }
+  });
+};
+
+/**
+ * Offsets that space rects with equal gaps along an axis, in the order of
+ * their centers, within the span they cover together: the first starts
+ * where the span starts and the last ends where it ends. Rects too large
+ * to fit side by side get evenly spaced centers instead, each kept inside
+ * the span. Returned in the same order as `rects`.
+ */
+export const distributeBounds = (
+  rects: Bounds[],
+  axis: DistributeAxis,
+): Point[] => {
+  const offsets = rects.map(() => ({ x: 0, y: 0 }));
+  if (rects.length < 3) return offsets;
+
+  const horizontal = axis === "horizontal";
+  const start = (r: Bounds) => (horizontal ? r.x : r.y);
+  const size = (r: Bounds) => (horizontal ? r.width : r.height);
+  const center = (r: Bounds) => start(r) + size(r) / 2;
+  const offset = (d: number) => (horizontal ? { x: d, y: 0 } : { x: 0, y: d });
+
+  const order = rects
+    .map((_, i) => i)
+    .sort((a, b) => center(rects[a]) - center(rects[b]));
+  const spanStart = Math.min(...rects.map(start));
+  const spanEnd = Math.max(...rects.map((r) => start(r) + size(r)));
+  const total = rects.reduce((sum, r) => sum + size(r), 0);
+  const gap = (spanEnd - spanStart - total) / (rects.length - 1);
+
+  if (gap >= 0) {
+    let cursor = spanStart;
+    for (const i of order) {
+      offsets[i] = offset(cursor - start(rects[i]));
+      cursor += size(rects[i]) + gap;
+    }
+    return offsets;
+  }
+
+  const firstCenter = center(rects[order[0]]);
+  const step =
+    (center(rects[order[order.length - 1]]) - firstCenter) /
+    (rects.length - 1);
+  order.forEach((i, k) => {
+    const r = rects[i];
+    const target = Math.min(
+      Math.max(firstCenter + k * step - size(r) / 2, spanStart),
+      spanEnd - size(r),
+    );
+    offsets[i] = offset(target - start(r));
+  });
+  return offsets;
+};